@@ -0,0 +1,113 @@
+#!/usr/bin/env node
+
+import * as dotenv from 'dotenv';
+
+// Load environment variables FIRST
+dotenv.config();
+
+import { MongoDBService, CollectionValidatorOptions } from './services/MongoDBService';
+import { loadMongoDBConfig } from './config/mongodb.config';
+import { CodingQuestionSchema } from './models/CodingQuestion';
+import { MongoJsonSchemaConverter } from './utils/MongoJsonSchema';
+import { getArgValue, getPositionalArgs } from './utils/CliArgs';
+
+const VALIDATION_LEVELS = ['off', 'strict', 'moderate'] as const;
+const VALIDATION_ACTIONS = ['error', 'warn'] as const;
+
+const USAGE = `Usage: npm run collection-validator -- <command> [options]
+
+Commands:
+  show    Print the $jsonSchema generated from CodingQuestionSchema
+  diff    Compare the validator installed on the collection with the generated one
+  apply   Install the generated validator on the collection with collMod
+
+Options (apply):
+  --level <off|strict|moderate>   validationLevel (default: moderate)
+  --action <error|warn>           validationAction (default: error)`;
+
+/**
+ * Collection Validator CLI - Exports CodingQuestionSchema as a MongoDB
+ * $jsonSchema validator so other writers are checked at write time
+ */
+async function main() {
+  const [command] = getPositionalArgs(['level', 'action']);
+  const generated = { $jsonSchema: MongoJsonSchemaConverter.fromZod(CodingQuestionSchema) };
+
+  if (command === 'show') {
+    console.log(JSON.stringify(generated, null, 2));
+    return;
+  }
+
+  if (command !== 'diff' && command !== 'apply') {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const level = (getArgValue('level') || 'moderate') as (typeof VALIDATION_LEVELS)[number];
+  const action = (getArgValue('action') || 'error') as (typeof VALIDATION_ACTIONS)[number];
+  if (!VALIDATION_LEVELS.includes(level) || !VALIDATION_ACTIONS.includes(action)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const mongoService = new MongoDBService(loadMongoDBConfig());
+  await mongoService.connect();
+
+  try {
+    const installed = await mongoService.getCollectionValidator();
+
+    if (command === 'diff') {
+      printDiff(installed, generated);
+      return;
+    }
+
+    await mongoService.setCollectionValidator({
+      validator: generated,
+      validationLevel: level,
+      validationAction: action,
+    });
+    console.log(`Validator applied (validationLevel=${level}, validationAction=${action})`);
+  } finally {
+    await mongoService.disconnect();
+  }
+}
+
+/**
+ * Print the differences between the installed and generated validators
+ */
+function printDiff(installed: CollectionValidatorOptions, generated: { $jsonSchema: object }): void {
+  console.log(`Installed validationLevel: ${installed.validationLevel || '(none)'}`);
+  console.log(`Installed validationAction: ${installed.validationAction || '(none)'}`);
+
+  if (!installed.validator) {
+    console.log('No validator installed. Run "apply" to install the generated validator.');
+    return;
+  }
+
+  const differences = MongoJsonSchemaConverter.diff(installed.validator, generated);
+  if (differences.length === 0) {
+    console.log('Installed validator matches CodingQuestionSchema.');
+    return;
+  }
+
+  console.log(`${differences.length} difference(s) between installed and generated validator:`);
+  differences.forEach((difference) => {
+    switch (difference.change) {
+      case 'added':
+        console.log(`  + ${difference.path}: ${JSON.stringify(difference.generated)}`);
+        break;
+      case 'removed':
+        console.log(`  - ${difference.path}: ${JSON.stringify(difference.installed)}`);
+        break;
+      default:
+        console.log(
+          `  ~ ${difference.path}: ${JSON.stringify(difference.installed)} -> ${JSON.stringify(difference.generated)}`
+        );
+    }
+  });
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', (error as Error).message);
+  process.exit(1);
+});
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+/**
+ * Scan checkpoint Configuration Schema
+ */
+export const CheckpointConfigSchema = z.object({
+  store: z.enum(['file', 'mongo', 'none']).default('file'),
+  filePath: z.string().min(1).default('./scan-checkpoint.json'),
+  collection: z.string().min(1).default('scan_checkpoints'), // Used by the mongo store
+  intervalBatches: z.number().int().positive().default(1), // Save after every N batches
+});
+
+export type CheckpointConfig = z.infer<typeof CheckpointConfigSchema>;
+
+/**
+ * Load Checkpoint configuration from environment
+ */
+export function loadCheckpointConfig(): CheckpointConfig {
+  return CheckpointConfigSchema.parse({
+    store: process.env.CHECKPOINT_STORE || 'file',
+    filePath: process.env.CHECKPOINT_FILE_PATH || './scan-checkpoint.json',
+    collection: process.env.CHECKPOINT_COLLECTION || 'scan_checkpoints',
+    intervalBatches: parseInt(process.env.CHECKPOINT_INTERVAL_BATCHES || '1', 10),
+  });
+}
@@ -0,0 +1,23 @@
+import { z } from 'zod';
+
+/**
+ * Duplicate detection (collection-level check) Configuration Schema
+ */
+export const DuplicateConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  similarityThreshold: z.number().min(0).max(1).default(0.8), // Estimated Jaccard similarity
+  reportPath: z.string().min(1).default('./DUPLICATE_QUESTIONS.md'),
+});
+
+export type DuplicateConfig = z.infer<typeof DuplicateConfigSchema>;
+
+/**
+ * Load Duplicate detection configuration from environment
+ */
+export function loadDuplicateConfig(): DuplicateConfig {
+  return DuplicateConfigSchema.parse({
+    enabled: process.env.DUPLICATE_DETECTION_ENABLED !== 'false',
+    similarityThreshold: parseFloat(process.env.DUPLICATE_SIMILARITY_THRESHOLD || '0.8'),
+    reportPath: process.env.DUPLICATE_REPORT_PATH || './DUPLICATE_QUESTIONS.md',
+  });
+}
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+
+/**
+ * Execution (sandboxed solution run) Configuration Schema
+ */
+export const ExecutionConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  languages: z
+    .array(z.enum(['c', 'cpp', 'java', 'javascript', 'python']))
+    .min(1, 'At least one execution language is required')
+    .default(['c', 'cpp', 'java', 'javascript', 'python']),
+  compileTimeoutMs: z.number().int().positive().default(30000),
+  runTimeoutMs: z.number().int().positive().default(5000),
+  memoryLimitMb: z.number().int().positive().default(256),
+  maxOutputBytes: z.number().int().positive().default(1048576), // 1MB
+  networkIsolation: z.boolean().default(true),
+  workDir: z.string().optional(), // Defaults to OS temp directory
+  differentialEnabled: z.boolean().default(false),
+  generatedInputCount: z.number().int().min(0).default(10),
+  generatorSeed: z.number().int().default(42),
+});
+
+export type ExecutionConfig = z.infer<typeof ExecutionConfigSchema>;
+
+/**
+ * Load Execution configuration from environment
+ */
+export function loadExecutionConfig(): ExecutionConfig {
+  return ExecutionConfigSchema.parse({
+    enabled: process.env.EXECUTION_ENABLED === 'true',
+    languages: process.env.EXECUTION_LANGUAGES
+      ? process.env.EXECUTION_LANGUAGES.split(',').map((lang) => lang.trim())
+      : undefined,
+    compileTimeoutMs: parseInt(process.env.EXECUTION_COMPILE_TIMEOUT_MS || '30000', 10),
+    runTimeoutMs: parseInt(process.env.EXECUTION_RUN_TIMEOUT_MS || '5000', 10),
+    memoryLimitMb: parseInt(process.env.EXECUTION_MEMORY_LIMIT_MB || '256', 10),
+    maxOutputBytes: parseInt(process.env.EXECUTION_MAX_OUTPUT_BYTES || '1048576', 10),
+    networkIsolation: process.env.EXECUTION_NETWORK_ISOLATION !== 'false',
+    workDir: process.env.EXECUTION_WORK_DIR || undefined,
+    differentialEnabled: process.env.EXECUTION_DIFFERENTIAL_ENABLED === 'true',
+    generatedInputCount: parseInt(process.env.EXECUTION_GENERATED_INPUTS || '10', 10),
+    generatorSeed: parseInt(process.env.EXECUTION_GENERATOR_SEED || '42', 10),
+  });
+}
@@ -3,6 +3,15 @@ import dotenv from 'dotenv';
 import { loadMongoDBConfig, MongoDBConfig } from './mongodb.config';
 import { loadQueueConfig, QueueConfig } from './queue.config';
 import { loadAIConfig, AIConfig } from './ai.config';
+import { loadExecutionConfig, ExecutionConfig } from './execution.config';
+import { loadValidationConfig, ValidationConfig } from './validation.config';
+import { loadDuplicateConfig, DuplicateConfig } from './duplicate.config';
+import { loadNormalizationConfig, NormalizationConfig } from './normalization.config';
+import { loadCheckpointConfig, CheckpointConfig } from './checkpoint.config';
+import { loadWatchConfig, WatchConfig } from './watch.config';
+import { loadPartitionConfig, PartitionConfig } from './partition.config';
+import { loadProcessingConfig, ProcessingConfig } from './processing.config';
+import { loadPayloadConfig, PayloadConfig } from './payload.config';
 import path from 'path';
 
 /**
@@ -16,6 +25,8 @@ export const AppConfigSchema = z.object({
   logLevel: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
   retryMaxAttempts: z.number().int().positive().default(3),
   retryDelayMs: z.number().int().positive().default(5000),
+  // Least serious finding that still sends a document to AI correction
+  queueSeverityThreshold: z.enum(['error', 'warning', 'info']).default('error'),
 });
 
 export type AppConfig = z.infer<typeof AppConfigSchema>;
@@ -27,6 +38,15 @@ export interface Config {
   mongodb: MongoDBConfig;
   queue: QueueConfig;
   ai: AIConfig;
+  execution: ExecutionConfig;
+  validation: ValidationConfig;
+  duplicates: DuplicateConfig;
+  normalization: NormalizationConfig;
+  checkpoint: CheckpointConfig;
+  watch: WatchConfig;
+  partitions: PartitionConfig;
+  processing: ProcessingConfig;
+  payloads: PayloadConfig;
   app: AppConfig;
 }
 
@@ -42,6 +62,7 @@ function loadAppConfig(): AppConfig {
     logLevel: process.env.LOG_LEVEL || 'info',
     retryMaxAttempts: parseInt(process.env.RETRY_MAX_ATTEMPTS || '3', 10),
     retryDelayMs: parseInt(process.env.RETRY_DELAY_MS || '5000', 10),
+    queueSeverityThreshold: process.env.QUEUE_SEVERITY_THRESHOLD || 'error',
   });
 }
 
@@ -57,6 +78,15 @@ export function loadConfig(): Config {
       mongodb: loadMongoDBConfig(),
       queue: loadQueueConfig(),
       ai: loadAIConfig(),
+      execution: loadExecutionConfig(),
+      validation: loadValidationConfig(),
+      duplicates: loadDuplicateConfig(),
+      normalization: loadNormalizationConfig(),
+      checkpoint: loadCheckpointConfig(),
+      watch: loadWatchConfig(),
+      partitions: loadPartitionConfig(),
+      processing: loadProcessingConfig(),
+      payloads: loadPayloadConfig(),
       app: loadAppConfig(),
     };
 
@@ -70,6 +100,21 @@ export function loadConfig(): Config {
     if (!path.isAbsolute(config.app.failureReportPath)) {
       config.app.failureReportPath = path.resolve(process.cwd(), config.app.failureReportPath);
     }
+    if (config.validation.tagTaxonomyPath && !path.isAbsolute(config.validation.tagTaxonomyPath)) {
+      config.validation.tagTaxonomyPath = path.resolve(process.cwd(), config.validation.tagTaxonomyPath);
+    }
+    if (!path.isAbsolute(config.checkpoint.filePath)) {
+      config.checkpoint.filePath = path.resolve(process.cwd(), config.checkpoint.filePath);
+    }
+    if (!path.isAbsolute(config.watch.resumeTokenPath)) {
+      config.watch.resumeTokenPath = path.resolve(process.cwd(), config.watch.resumeTokenPath);
+    }
+    if (!path.isAbsolute(config.payloads.directory)) {
+      config.payloads.directory = path.resolve(process.cwd(), config.payloads.directory);
+    }
+    if (!path.isAbsolute(config.duplicates.reportPath)) {
+      config.duplicates.reportPath = path.resolve(process.cwd(), config.duplicates.reportPath);
+    }
 
     return config;
   } catch (error) {
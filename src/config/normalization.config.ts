@@ -0,0 +1,22 @@
+import { z } from 'zod';
+
+/**
+ * Normalization pipeline Configuration Schema
+ */
+export const NormalizationConfigSchema = z.object({
+  disabledSteps: z.array(z.string().min(1)).default([]), // Step ids to skip
+});
+
+export type NormalizationConfig = z.infer<typeof NormalizationConfigSchema>;
+
+/**
+ * Load Normalization configuration from environment
+ */
+export function loadNormalizationConfig(): NormalizationConfig {
+  return NormalizationConfigSchema.parse({
+    disabledSteps: (process.env.NORMALIZATION_DISABLED_STEPS || '')
+      .split(',')
+      .map((step) => step.trim())
+      .filter((step) => step.length > 0),
+  });
+}
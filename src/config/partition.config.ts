@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+/**
+ * Partitioned scanning Configuration Schema
+ */
+export const PartitionConfigSchema = z.object({
+  workers: z.number().int().positive().default(1), // Worker threads per scanner process
+  partitionsPerWorker: z.number().int().positive().default(4), // Smaller ranges balance uneven workers
+  collection: z.string().min(1).default('scan_partitions'),
+  leaseMs: z.number().int().positive().default(600000), // A claimed range is free again after this
+  maxAttempts: z.number().int().positive().default(3), // Per range, before it is reported as failed
+});
+
+export type PartitionConfig = z.infer<typeof PartitionConfigSchema>;
+
+/**
+ * Load Partitioned scanning configuration from environment
+ */
+export function loadPartitionConfig(): PartitionConfig {
+  return PartitionConfigSchema.parse({
+    workers: parseInt(process.env.SCAN_WORKERS || '1', 10),
+    partitionsPerWorker: parseInt(process.env.SCAN_PARTITIONS_PER_WORKER || '4', 10),
+    collection: process.env.SCAN_PARTITION_COLLECTION || 'scan_partitions',
+    leaseMs: parseInt(process.env.SCAN_PARTITION_LEASE_MS || '600000', 10),
+    maxAttempts: parseInt(process.env.SCAN_PARTITION_MAX_ATTEMPTS || '3', 10),
+  });
+}
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+/**
+ * Claim-check payload Configuration Schema
+ */
+export const PayloadConfigSchema = z.object({
+  store: z.enum(['mongo', 'file', 'none']).default('mongo'),
+  mode: z.enum(['auto', 'always']).default('auto'), // auto: only messages above the threshold
+  // SQS rejects messages above 256 KB, attributes included
+  thresholdBytes: z.number().int().positive().default(200000),
+  collection: z.string().min(1).default('queue_payloads'), // Used by the mongo store
+  directory: z.string().min(1).default('./queue_payloads'), // Used by the file store
+});
+
+export type PayloadConfig = z.infer<typeof PayloadConfigSchema>;
+
+/**
+ * Load Payload configuration from environment
+ */
+export function loadPayloadConfig(): PayloadConfig {
+  return PayloadConfigSchema.parse({
+    store: process.env.PAYLOAD_STORE || 'mongo',
+    mode: process.env.CLAIM_CHECK_MODE || 'auto',
+    thresholdBytes: parseInt(process.env.CLAIM_CHECK_THRESHOLD_BYTES || '200000', 10),
+    collection: process.env.PAYLOAD_COLLECTION || 'queue_payloads',
+    directory: process.env.PAYLOAD_DIR || './queue_payloads',
+  });
+}
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+
+/**
+ * Per-document processing state Configuration Schema
+ */
+export const ProcessingConfigSchema = z.object({
+  stateEnabled: z.boolean().default(true),
+  stateCollection: z.string().min(1).default('processing_state'),
+  // Queued or in-progress records older than this no longer block re-queueing (lost messages)
+  staleAfterMs: z.number().int().positive().default(86400000),
+});
+
+export type ProcessingConfig = z.infer<typeof ProcessingConfigSchema>;
+
+/**
+ * Load Processing state configuration from environment
+ */
+export function loadProcessingConfig(): ProcessingConfig {
+  return ProcessingConfigSchema.parse({
+    stateEnabled: process.env.PROCESSING_STATE_ENABLED !== 'false',
+    stateCollection: process.env.PROCESSING_STATE_COLLECTION || 'processing_state',
+    staleAfterMs: parseInt(process.env.PROCESSING_STATE_STALE_MS || '86400000', 10),
+  });
+}
@@ -1,19 +1,36 @@
 import { z } from 'zod';
 
 /**
- * Queue Configuration Schema for AWS SQS
+ * Queue Configuration Schema (AWS SQS, in-process memory or a MongoDB collection)
  */
-export const QueueConfigSchema = z.object({
-  queueUrl: z.string().url('Valid SQS queue URL is required'),
-  region: z.string().min(1, 'AWS region is required').default('us-east-1'),
-  endpoint: z.string().url().optional(), // For LocalStack
-  concurrency: z.number().int().positive().default(5),
-  retryMaxAttempts: z.number().int().positive().default(3),
-  retryDelayMs: z.number().int().positive().default(5000),
-  visibilityTimeout: z.number().int().positive().default(300), // 5 minutes
-  waitTimeSeconds: z.number().int().min(0).max(20).default(20), // Long polling
-  maxNumberOfMessages: z.number().int().min(1).max(10).default(1),
-});
+export const QueueConfigSchema = z
+  .object({
+    backend: z.enum(['sqs', 'memory', 'mongo']).default('sqs'),
+    queueUrl: z.string().url('Valid SQS queue URL is required').optional(), // Required for sqs
+    region: z.string().min(1, 'AWS region is required').default('us-east-1'),
+    endpoint: z.string().url().optional(), // For LocalStack
+    mongoCollection: z.string().min(1).default('queue_messages'), // Used by the mongo backend
+    deadLetterEnabled: z.boolean().default(true),
+    deadLetterQueueUrl: z.string().url().optional(), // sqs backend; without it failed messages are deleted
+    deadLetterMongoCollection: z.string().min(1).default('queue_dead_letters'),
+    concurrency: z.number().int().positive().default(5),
+    retryMaxAttempts: z.number().int().positive().default(3),
+    retryDelayMs: z.number().int().positive().default(5000),
+    visibilityTimeout: z.number().int().positive().default(300), // 5 minutes
+    // Extend the visibility of in-flight messages this often while the handler runs
+    heartbeatIntervalSeconds: z.number().int().positive().default(60),
+    maxProcessingSeconds: z.number().int().positive().default(3600), // Stop extending after this
+    waitTimeSeconds: z.number().int().min(0).max(20).default(20), // Long polling
+    maxNumberOfMessages: z.number().int().min(1).max(10).default(1),
+  })
+  .refine((config) => config.backend !== 'sqs' || !!config.queueUrl, {
+    message: 'Valid SQS queue URL is required',
+    path: ['queueUrl'],
+  })
+  .refine((config) => config.heartbeatIntervalSeconds < config.visibilityTimeout, {
+    message: 'Heartbeat interval must be shorter than the visibility timeout',
+    path: ['heartbeatIntervalSeconds'],
+  });
 
 export type QueueConfig = z.infer<typeof QueueConfigSchema>;
 
@@ -22,13 +39,20 @@ export type QueueConfig = z.infer<typeof QueueConfigSchema>;
  */
 export function loadQueueConfig(): QueueConfig {
   return QueueConfigSchema.parse({
+    backend: process.env.QUEUE_BACKEND || 'sqs',
     queueUrl: process.env.SQS_QUEUE_URL,
     region: process.env.SQS_REGION || 'us-east-1',
     endpoint: process.env.SQS_ENDPOINT,
+    mongoCollection: process.env.QUEUE_MONGO_COLLECTION || 'queue_messages',
+    deadLetterEnabled: process.env.QUEUE_DLQ_ENABLED !== 'false',
+    deadLetterQueueUrl: process.env.SQS_DLQ_URL,
+    deadLetterMongoCollection: process.env.QUEUE_DLQ_MONGO_COLLECTION || 'queue_dead_letters',
     concurrency: parseInt(process.env.QUEUE_CONCURRENCY || '5', 10),
     retryMaxAttempts: parseInt(process.env.RETRY_MAX_ATTEMPTS || '3', 10),
     retryDelayMs: parseInt(process.env.RETRY_DELAY_MS || '5000', 10),
     visibilityTimeout: parseInt(process.env.SQS_VISIBILITY_TIMEOUT || '300', 10),
+    heartbeatIntervalSeconds: parseInt(process.env.QUEUE_HEARTBEAT_INTERVAL_SECONDS || '60', 10),
+    maxProcessingSeconds: parseInt(process.env.QUEUE_MAX_PROCESSING_SECONDS || '3600', 10),
     waitTimeSeconds: parseInt(process.env.SQS_WAIT_TIME_SECONDS || '20', 10),
     maxNumberOfMessages: parseInt(process.env.SQS_MAX_MESSAGES || '1', 10),
   });
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+
+/**
+ * Validation rule engine Configuration Schema
+ */
+export const ValidationConfigSchema = z.object({
+  disabledRules: z.array(z.string().min(1)).default([]),
+  ruleModules: z.array(z.string().min(1)).default([]), // Extra rule modules to load
+  severityOverrides: z.record(z.enum(['error', 'warning', 'info'])).default({}),
+  tagTaxonomyPath: z.string().min(1).optional(), // Replaces the bundled src/config/topic-tags.json
+});
+
+export type ValidationConfig = z.infer<typeof ValidationConfigSchema>;
+
+/**
+ * Split a comma-separated environment variable into trimmed entries
+ */
+function parseList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
+/**
+ * Parse "rule-id:severity" pairs into a map
+ */
+function parseSeverities(value: string | undefined): Record<string, string> {
+  const severities: Record<string, string> = {};
+  parseList(value).forEach((entry) => {
+    const [ruleId, severity] = entry.split(':').map((part) => part.trim());
+    severities[ruleId] = severity;
+  });
+  return severities;
+}
+
+/**
+ * Load Validation configuration from environment
+ */
+export function loadValidationConfig(): ValidationConfig {
+  return ValidationConfigSchema.parse({
+    disabledRules: parseList(process.env.VALIDATION_DISABLED_RULES),
+    ruleModules: parseList(process.env.VALIDATION_RULE_MODULES),
+    severityOverrides: parseSeverities(process.env.VALIDATION_RULE_SEVERITIES),
+    tagTaxonomyPath: process.env.TAG_TAXONOMY_PATH || undefined,
+  });
+}
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+/**
+ * Watch mode (change streams) Configuration Schema
+ */
+export const WatchConfigSchema = z.object({
+  resumeTokenPath: z.string().min(1).default('./watch-resume-token.json'), // Used by the file checkpoint store
+  writeLedgerEnabled: z.boolean().default(true),
+  writeLedgerCollection: z.string().min(1).default('pipeline_writes'),
+  writeLedgerTtlSeconds: z.number().int().positive().default(86400), // Unclaimed entries expire
+});
+
+export type WatchConfig = z.infer<typeof WatchConfigSchema>;
+
+/**
+ * Load Watch mode configuration from environment
+ */
+export function loadWatchConfig(): WatchConfig {
+  return WatchConfigSchema.parse({
+    resumeTokenPath: process.env.WATCH_RESUME_TOKEN_PATH || './watch-resume-token.json',
+    writeLedgerEnabled: process.env.WRITE_LEDGER_ENABLED !== 'false',
+    writeLedgerCollection: process.env.WRITE_LEDGER_COLLECTION || 'pipeline_writes',
+    writeLedgerTtlSeconds: parseInt(process.env.WRITE_LEDGER_TTL_SECONDS || '86400', 10),
+  });
+}
@@ -4,12 +4,17 @@ import { loadConfig, validateConfig } from './config';
 import { Logger } from './utils/Logger';
 import { MongoDBService } from './services/MongoDBService';
 import { QueueService } from './services/QueueService';
+import { createDeadLetterQueue, createQueueBackend } from './services/queue';
+import { createClaimCheck } from './services/PayloadStore';
+import { CorrectionWorkerService } from './services/CorrectionWorkerService';
 import { AIProcessorService } from './services/AIProcessorService';
 import { UpdaterService } from './services/UpdaterService';
+import { WriteLedger } from './services/WriteLedger';
+import { ProcessingStateService } from './services/ProcessingStateService';
 import { SchemaValidator } from './validators/SchemaValidator';
-import { QueueMessage } from './models/QueueMessage';
 import { BackupManager } from './utils/BackupManager';
 import { FailureReportManager } from './utils/FailureReportManager';
+import { TagTaxonomy } from './utils/TagTaxonomy';
 
 /**
  * Consumer CLI - Processes queue and updates documents
@@ -31,6 +36,16 @@ async function main() {
     const logger = Logger.initialize(config.app.logLevel);
     logger.info('Configuration loaded successfully');
 
+    // The memory queue lives in this process: jobs would vanish on exit
+    if (config.queue.backend === 'memory') {
+      throw new Error(
+        'QUEUE_BACKEND=memory only works with the scanner and consumer in one process; use npm run pipeline'
+      );
+    }
+
+    // Load the topic tag taxonomy (TAG_TAXONOMY_PATH replaces the bundled one)
+    TagTaxonomy.loadConfigured(config.validation);
+
     // Initialize backup manager
     const backupManager = new BackupManager(
       config.app.failedQuestionsDir,
@@ -47,9 +62,25 @@ async function main() {
     mongoService = new MongoDBService(config.mongodb);
     await mongoService.connect();
 
+    // Record corrections in the write ledger so the scanner's watch mode ignores them
+    if (config.watch.writeLedgerEnabled) {
+      const writeLedger = new WriteLedger(
+        mongoService,
+        config.watch.writeLedgerCollection,
+        config.watch.writeLedgerTtlSeconds
+      );
+      await writeLedger.initialize();
+      mongoService.setWriteLedger(writeLedger);
+    }
+
     // Initialize queue service
     logger.info('Connecting to queue...');
-    queueService = new QueueService(config.queue);
+    queueService = new QueueService(
+      config.queue,
+      createQueueBackend(config.queue, mongoService),
+      createDeadLetterQueue(config.queue, mongoService),
+      createClaimCheck(config.payloads, mongoService)
+    );
 
     // Get initial queue stats
     const queueStats = await queueService.getStats();
@@ -66,145 +97,45 @@ async function main() {
     }
     logger.info('AI service connection verified');
 
-    // Initialize updater service
+    // Initialize validator (with sandboxed execution stages if enabled)
+    const validator = await SchemaValidator.fromExecutionConfig(config.execution, config.validation);
+
+    // Initialize updater service (checks writes with the same rule settings)
     const updaterService = new UpdaterService(
       mongoService,
       config.app.retryMaxAttempts,
-      config.app.retryDelayMs
+      config.app.retryDelayMs,
+      validator
     );
 
-    // Initialize validator
-    const validator = new SchemaValidator();
-
-    // Statistics
-    let processedCount = 0;
-    let successCount = 0;
-    let failureCount = 0;
+    // Processing state tells the scanner which documents are already being corrected
+    const processingState = config.processing.stateEnabled
+      ? new ProcessingStateService(mongoService, config.processing)
+      : undefined;
 
     // Create worker
     logger.info('Starting worker...', {
       concurrency: config.queue.concurrency,
     });
 
-    queueService.createWorker(async (message: QueueMessage) => {
-      const startTime = Date.now();
-      const { documentId, failedDocument, validationErrors, retryCount } = message;
-
-      logger.info('Processing message', {
-        documentId,
-        questionId: failedDocument.question_id,
-        errorCount: validationErrors.length,
-        retryCount,
-      });
-
-      try {
-        // Step 1: Call AI to correct document
-        logger.info('Calling AI to correct document', { documentId });
-        const correctedDocument = await aiProcessor.correctDocument(
-          failedDocument,
-          validationErrors
-        );
-
-        // Step 2: Validate AI-corrected document
-        logger.info('Validating AI-corrected document', { documentId });
-        const validationResult = validator.validate(correctedDocument);
-
-        if (!validationResult.isValid) {
-          logger.error('AI-corrected document still has validation errors', {
-            documentId,
-            errorCount: validationResult.errors.length,
-            errors: validationResult.errors,
-          });
-
-          // Throw error to trigger retry
-          throw new Error(
-            `AI correction failed: ${validationResult.errors.length} validation errors remain`
-          );
-        }
-
-        logger.info('AI-corrected document passed validation', { documentId });
-
-        // Step 3: Update document in MongoDB
-        logger.info('Updating document in MongoDB', { documentId });
-        const updated = await updaterService.updateDocument(documentId, correctedDocument);
-
-        if (!updated) {
-          throw new Error('Failed to update document in MongoDB');
-        }
-
-        // Step 4: Save corrected document to corrected_questions directory
-        logger.info('Saving corrected document', { documentId });
-        try {
-          await backupManager.saveCorrectedDocument(correctedDocument);
-        } catch (saveError) {
-          logger.error('Failed to save corrected document', {
-            documentId,
-            error: (saveError as Error).message,
-          });
-          // Don't throw - document was already updated in MongoDB
-        }
-
-        // Success
-        const duration = Date.now() - startTime;
-        successCount++;
-        processedCount++;
-
-        logger.info('Message processed successfully', {
-          documentId,
-          questionId: correctedDocument.question_id,
-          durationMs: duration,
-          successCount,
-          failureCount,
-        });
-      } catch (error) {
-        failureCount++;
-        processedCount++;
-
-        logger.error('Message processing failed', {
-          documentId,
-          error: (error as Error).message,
-          stack: (error as Error).stack,
-          retryCount,
-        });
-
-        // If this was the last retry attempt, log to failure report
-        if (retryCount >= config.app.retryMaxAttempts - 1) {
-          logger.warn('Max retry attempts reached, logging to failure report', {
-            documentId,
-            retryCount,
-          });
-
-          try {
-            const backupFilePath = `${config.app.failedQuestionsDir}/${(failedDocument as any).slug || 'unknown'}_${documentId}.json`;
-            const failureEntry = FailureReportManager.createFailureEntry(
-              failedDocument,
-              validationErrors,
-              (error as Error).message,
-              retryCount + 1,
-              backupFilePath
-            );
-            await failureReportManager.logFailure(failureEntry);
-          } catch (reportError) {
-            logger.error('Failed to log failure to report', {
-              documentId,
-              error: (reportError as Error).message,
-            });
-          }
-        }
-
-        // Re-throw to let SQS handle retry
-        throw error;
-      }
-    });
+    const correctionWorker = new CorrectionWorkerService(
+      aiProcessor,
+      validator,
+      updaterService,
+      backupManager,
+      failureReportManager,
+      config.app,
+      processingState
+    );
+    correctionWorker.start(queueService);
 
     // Log statistics periodically
     setInterval(async () => {
       if (!queueService) return;
       const stats = await queueService.getStats();
       logger.info('Worker statistics', {
-        processed: processedCount,
-        successful: successCount,
-        failed: failureCount,
+        ...correctionWorker.getStats(),
+        worker: queueService.getWorkerStats(),
         queue: stats,
       });
     }, 30000); // Every 30 seconds
@@ -0,0 +1,176 @@
+#!/usr/bin/env node
+
+import * as dotenv from 'dotenv';
+
+// Load environment variables FIRST
+dotenv.config();
+
+import { loadQueueConfig } from './config/queue.config';
+import { loadMongoDBConfig } from './config/mongodb.config';
+import { loadProcessingConfig } from './config/processing.config';
+import { loadPayloadConfig } from './config/payload.config';
+import { MongoDBService } from './services/MongoDBService';
+import { ProcessingStateService } from './services/ProcessingStateService';
+import { createClaimCheck } from './services/PayloadStore';
+import {
+  createDeadLetterQueue,
+  createQueueBackend,
+  DeadLetterEntry,
+  DeadLetterFilter,
+} from './services/queue';
+import { getArgValue, getPositionalArgs, hasFlag } from './utils/CliArgs';
+
+const USAGE = `Usage: npm run dlq -- <command> [options]
+
+Commands:
+  list              List dead-lettered messages
+  inspect <id>      Print one message with its original body
+  purge             Delete messages (requires a filter or --all)
+  redrive           Send messages back to the main queue (requires a filter or --all)
+
+Options:
+  --error <text>         Only messages whose last error contains the text
+  --document-id <ids>    Only messages of these documents (comma-separated)
+  --limit <n>            list: show at most n messages
+  --all                  purge/redrive: every message`;
+
+/**
+ * Dead-Letter Queue CLI - Lists, inspects, purges and redrives messages
+ * that failed every attempt
+ */
+async function main() {
+  const [command, id] = getPositionalArgs(['error', 'document-id', 'limit']);
+  if (!['list', 'inspect', 'purge', 'redrive'].includes(command) || (command === 'inspect' && !id)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const filter: DeadLetterFilter = {
+    error: getArgValue('error'),
+    documentIds: (getArgValue('document-id') || '')
+      .split(',')
+      .map((documentId) => documentId.trim())
+      .filter((documentId) => documentId.length > 0),
+    ...(command === 'inspect' && { ids: [id] }),
+  };
+  const filtered = !!filter.error || filter.documentIds!.length > 0;
+  if ((command === 'purge' || command === 'redrive') && !filtered && !hasFlag('all')) {
+    console.error(`${command} needs --error, --document-id or --all`);
+    process.exit(1);
+  }
+
+  const limitArg = getArgValue('limit');
+  const limit = limitArg !== undefined ? parseInt(limitArg, 10) : undefined;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    console.error(`Invalid --limit "${limitArg}". Must be a positive number`);
+    process.exit(1);
+  }
+
+  const queueConfig = loadQueueConfig();
+  if (queueConfig.backend === 'memory') {
+    console.error('The memory queue backend only exists inside a running pipeline');
+    process.exit(1);
+  }
+
+  const processingConfig = loadProcessingConfig();
+  const payloadConfig = loadPayloadConfig();
+  let mongoService: MongoDBService | undefined;
+  if (
+    queueConfig.backend === 'mongo' ||
+    processingConfig.stateEnabled ||
+    payloadConfig.store === 'mongo'
+  ) {
+    mongoService = new MongoDBService(loadMongoDBConfig());
+    await mongoService.connect();
+  }
+
+  const deadLetterQueue = createDeadLetterQueue(queueConfig, mongoService);
+  const claimCheck = createClaimCheck(payloadConfig, mongoService);
+  if (!deadLetterQueue) {
+    console.error('No dead-letter queue configured (QUEUE_DLQ_ENABLED, SQS_DLQ_URL)');
+    process.exit(1);
+  }
+
+  try {
+    if (command === 'list') {
+      const entries = await deadLetterQueue.list(filter, limit);
+      entries.forEach(printEntry);
+      console.log(`${entries.length} message(s)`);
+      return;
+    }
+
+    if (command === 'inspect') {
+      const [entry] = await deadLetterQueue.list(filter, 1);
+      if (!entry) {
+        console.error(`Message ${id} not found`);
+        process.exitCode = 1;
+        return;
+      }
+      let body: unknown = entry.record.body;
+      try {
+        // Claim-checked messages show the stored document
+        body = JSON.parse(
+          entry.record.payloadRef && claimCheck
+            ? await claimCheck.store.get(entry.record.payloadRef)
+            : entry.record.body
+        );
+      } catch {
+        // Print the raw body
+      }
+      console.log(JSON.stringify({ id: entry.id, ...entry.record, body }, null, 2));
+      return;
+    }
+
+    if (command === 'purge') {
+      const purged = await deadLetterQueue.purge(filter, async (entry) => {
+        if (entry.record.payloadRef && claimCheck) {
+          await claimCheck.store.delete(entry.record.payloadRef);
+        }
+      });
+      console.log(`Purged ${purged} message(s)`);
+      return;
+    }
+
+    // Redriven documents are queued again as far as the scanner is concerned
+    const processingState =
+      mongoService && processingConfig.stateEnabled
+        ? new ProcessingStateService(mongoService, processingConfig)
+        : undefined;
+    const mainQueue = createQueueBackend(queueConfig, mongoService);
+    try {
+      const redriven = await deadLetterQueue.redrive(mainQueue, filter, async (entry, messageId) => {
+        if (processingState && entry.record.documentId) {
+          await processingState.reserve(entry.record.documentId, true);
+          await processingState.markQueued(entry.record.documentId, messageId);
+        }
+      });
+      console.log(`Redrove ${redriven} message(s) to the main queue`);
+    } finally {
+      await mainQueue.close();
+    }
+  } finally {
+    await deadLetterQueue.close();
+    await mongoService?.disconnect();
+  }
+}
+
+/**
+ * Print one line per message
+ */
+function printEntry(entry: DeadLetterEntry): void {
+  const { record } = entry;
+  console.log(
+    [
+      entry.id,
+      `document=${record.documentId || '-'}`,
+      `attempts=${record.attempts}`,
+      `deadLetteredAt=${record.deadLetteredAt || '-'}`,
+      `error=${record.lastError}`,
+    ].join('  ')
+  );
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', (error as Error).message);
+  process.exit(1);
+});
@@ -10,6 +10,7 @@ import { DataTransformer } from './utils/DataTransformer';
 import { SchemaValidator } from './validators/SchemaValidator';
 import { logger } from './utils/Logger';
 import { CodingQuestion } from './models/CodingQuestion';
+import { ValidationErrorCode, ValidationResult } from './models/ValidationError';
 
 /**
  * Main script to import data from missing.json into MongoDB
@@ -83,7 +84,7 @@ class DataImporter {
     transformed.forEach((doc, index) => {
       const result = this.validator.validate(doc);
 
-      if (result.isValid) {
+      if (this.isImportable(result)) {
         validDocuments.push(doc);
       } else {
         invalidCount++;
@@ -116,6 +117,14 @@ class DataImporter {
     };
   }
 
+  /**
+   * Imported documents only carry placeholder solutions; those are left for
+   * the scanner to route to AI correction instead of blocking the import
+   */
+  private isImportable(result: ValidationResult): boolean {
+    return result.errors.every((error) => error.code === ValidationErrorCode.PLACEHOLDER_CODE);
+  }
+
   /**
    * Step 4: Delete all existing documents from collection
    */
@@ -229,7 +238,7 @@ class DataImporter {
       documents.forEach((doc, index) => {
         const result = this.validator.validate(doc as any);
 
-        if (result.isValid) {
+        if (this.isImportable(result)) {
           validCount++;
         } else {
           invalidCount++;
@@ -10,6 +10,15 @@ export { loadConfig, validateConfig, Config } from './config';
 export { MongoDBConfig } from './config/mongodb.config';
 export { QueueConfig } from './config/queue.config';
 export { AIConfig } from './config/ai.config';
+export { ExecutionConfig } from './config/execution.config';
+export { ValidationConfig } from './config/validation.config';
+export { DuplicateConfig } from './config/duplicate.config';
+export { NormalizationConfig } from './config/normalization.config';
+export { CheckpointConfig } from './config/checkpoint.config';
+export { WatchConfig } from './config/watch.config';
+export { PartitionConfig } from './config/partition.config';
+export { ProcessingConfig } from './config/processing.config';
+export { PayloadConfig } from './config/payload.config';
 
 // Models
 export {
@@ -23,31 +32,155 @@ export {
   ValidationError,
   ValidationErrorCode,
   ValidationResult,
+  ValidationSeverity,
   ValidationErrorFactory,
+  SOLUTION_ERROR_CODES,
+  SEVERITY_ORDER,
+  getTargetSolutionLanguages,
+  getFindingsAtOrAbove,
 } from './models/ValidationError';
+export { NormalizationChange, describeNormalizationChange } from './models/NormalizationChange';
+export {
+  InputSpec,
+  InputSpecLine,
+  InputCount,
+  InputValueType,
+  InputSpecSchema,
+} from './models/InputSpec';
 export {
   QueueMessage,
   QueueJobOptions,
   QueueStats,
   ProcessingResult,
+  ClaimCheckReference,
+  WorkerStats,
 } from './models/QueueMessage';
 
+// Migrations
+export {
+  Migration,
+  MigrationRunner,
+  MigrationResult,
+  MIGRATIONS,
+  INITIAL_SCHEMA_VERSION,
+  CURRENT_SCHEMA_VERSION,
+} from './migrations';
+
 // Services
-export { MongoDBService } from './services/MongoDBService';
+export { MongoDBService, CollectionValidatorOptions, FetchOptions } from './services/MongoDBService';
 export { QueueService } from './services/QueueService';
-export { AIProcessorService } from './services/AIProcessorService';
+export {
+  QueueBackend,
+  ReceivedMessage,
+  SendOptions,
+  SqsQueueBackend,
+  MemoryQueueBackend,
+  MongoQueueBackend,
+  DeadLetterQueue,
+  DeadLetterRecord,
+  DeadLetterEntry,
+  DeadLetterFilter,
+  createQueueBackend,
+  createDeadLetterQueue,
+} from './services/queue';
+export { CorrectionWorkerService, CorrectionStats } from './services/CorrectionWorkerService';
+export { AIProcessorService, CorrectionOptions } from './services/AIProcessorService';
 export { UpdaterService } from './services/UpdaterService';
-export { ScannerService } from './services/ScannerService';
+export {
+  ScannerService,
+  ScanOptions,
+  ScanStats,
+  WatchOptions,
+  mergeScanStats,
+} from './services/ScannerService';
+export { WriteLedger, hashDocument } from './services/WriteLedger';
+export {
+  ProcessingStateService,
+  ProcessingState,
+  ProcessingStatus,
+} from './services/ProcessingStateService';
+export {
+  PartitionCoordinator,
+  ScanPartition,
+  PartitionStatus,
+  PlanProgress,
+} from './services/PartitionCoordinator';
+export {
+  PartitionedScanner,
+  PartitionedScanOptions,
+  PartitionedScanResult,
+} from './services/PartitionedScanner';
+export {
+  CheckpointStore,
+  ScanCheckpoint,
+  WatchCheckpoint,
+  SerializedId,
+  FileCheckpointStore,
+  MongoCheckpointStore,
+  createCheckpointStore,
+} from './services/CheckpointStore';
+export {
+  PayloadStore,
+  ClaimCheckOptions,
+  FilePayloadStore,
+  MongoPayloadStore,
+  createClaimCheck,
+} from './services/PayloadStore';
 
 // Validators
-export { SchemaValidator } from './validators/SchemaValidator';
+export {
+  SchemaValidator,
+  SchemaValidatorOptions,
+  SCHEMA_RULE_ID,
+  EXECUTION_RULE_ID,
+  DIFFERENTIAL_RULE_ID,
+} from './validators/SchemaValidator';
+export { RuleRegistry } from './validators/RuleRegistry';
+export {
+  DuplicateDetector,
+  DuplicateReport,
+  DuplicateCluster,
+  DuplicateCandidate,
+  DuplicateLink,
+  DuplicateReason,
+  DuplicateStats,
+} from './validators/DuplicateDetector';
+export { ValidationRule, RuleSeverity, BUILT_IN_RULES } from './validators/rules';
+export { ExecutionValidator } from './validators/ExecutionValidator';
+export { DifferentialTester } from './validators/DifferentialTester';
+export { PlaceholderDetector } from './validators/PlaceholderDetector';
+export { ConstraintValidator } from './validators/ConstraintValidator';
+export { InputSpecValidator } from './validators/InputSpecValidator';
+export { InputSpecParser, ParsedInput, InputReadResult } from './validators/InputSpecParser';
+export {
+  ConstraintParser,
+  ConstraintBound,
+  ConstraintTarget,
+  BoundValue,
+} from './validators/ConstraintParser';
 
 // Utils
 export { Logger, logger } from './utils/Logger';
 export { RetryHelper, RetryOptions } from './utils/RetryHelper';
 export { BackupManager } from './utils/BackupManager';
 export { FailureReportManager, FailureEntry } from './utils/FailureReportManager';
-export { DocumentNormalizer } from './utils/DocumentNormalizer';
+export { DocumentNormalizer, NormalizationOptions, NormalizationResult } from './utils/DocumentNormalizer';
+export { NormalizationStep, StepChange, BUILT_IN_STEPS } from './utils/normalization';
+export { DuplicateReportManager } from './utils/DuplicateReportManager';
+export { InputGenerator } from './utils/InputGenerator';
+export { ScanFilter, ScanFilterOptions } from './utils/ScanFilter';
+export { TestCaseConverter, LiteralValue, Assignment } from './utils/TestCaseConverter';
+export { MarkupConverter, MarkupArtifact, MarkupChange, MarkupKind, MarkupOptions } from './utils/MarkupConverter';
+export { MongoJsonSchemaConverter, MongoJsonSchema, JsonSchemaDifference } from './utils/MongoJsonSchema';
+export {
+  TagTaxonomy,
+  TagTaxonomySchema,
+  TagTaxonomyDefinition,
+  TagMatch,
+  TagMapping,
+  TagMappingResult,
+} from './utils/TagTaxonomy';
+export { CodeSandbox, SandboxLanguage, ProcessResult, PreparedProgram } from './utils/CodeSandbox';
 
 // Prompts
 export { generateCorrectionPrompt, parseAIResponse } from './prompts/correction-prompt';
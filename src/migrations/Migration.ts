@@ -0,0 +1,11 @@
+/**
+ * A deterministic schema migration between two consecutive versions.
+ * `up` turns a document at `version - 1` into one at `version`; `down`
+ * reverses it. Both must be pure: return a new object, never mutate.
+ */
+export interface Migration {
+  version: number; // Version the document is at after `up`
+  description: string;
+  up(document: any): any;
+  down(document: any): any;
+}
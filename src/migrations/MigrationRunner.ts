@@ -0,0 +1,80 @@
+import { Migration } from './Migration';
+import { INITIAL_SCHEMA_VERSION, MIGRATIONS } from './registry';
+
+/**
+ * Result of migrating one document
+ */
+export interface MigrationResult {
+  document: any;
+  fromVersion: number;
+  toVersion: number;
+  applied: string[]; // e.g. ["up 2: Derive inputSpec from inputFormat"]
+}
+
+/**
+ * Migration Runner - Moves documents between schema versions with the
+ * registered migrations, without AI involvement
+ */
+export class MigrationRunner {
+  private migrations: Migration[];
+
+  constructor(migrations: Migration[] = MIGRATIONS) {
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+  }
+
+  get currentVersion(): number {
+    return this.migrations.length > 0
+      ? this.migrations[this.migrations.length - 1].version
+      : INITIAL_SCHEMA_VERSION;
+  }
+
+  /**
+   * Recorded schema version of a document (legacy documents have none)
+   */
+  static getVersion(document: any): number {
+    const version = document?.schema_version;
+    return Number.isInteger(version) && version >= INITIAL_SCHEMA_VERSION
+      ? version
+      : INITIAL_SCHEMA_VERSION;
+  }
+
+  /**
+   * Migrate a document up or down to the target version (default: latest)
+   */
+  migrate(document: any, targetVersion: number = this.currentVersion): MigrationResult {
+    const fromVersion = MigrationRunner.getVersion(document);
+
+    if (fromVersion > this.currentVersion) {
+      throw new Error(
+        `Document schema_version ${fromVersion} is newer than the latest known version ${this.currentVersion}`
+      );
+    }
+    if (targetVersion < INITIAL_SCHEMA_VERSION || targetVersion > this.currentVersion) {
+      throw new Error(
+        `Target schema version ${targetVersion} must be between ${INITIAL_SCHEMA_VERSION} and ${this.currentVersion}`
+      );
+    }
+
+    let migrated = document;
+    const applied: string[] = [];
+
+    if (targetVersion > fromVersion) {
+      this.migrations
+        .filter((migration) => migration.version > fromVersion && migration.version <= targetVersion)
+        .forEach((migration) => {
+          migrated = migration.up(migrated);
+          applied.push(`up ${migration.version}: ${migration.description}`);
+        });
+    } else if (targetVersion < fromVersion) {
+      this.migrations
+        .filter((migration) => migration.version <= fromVersion && migration.version > targetVersion)
+        .reverse()
+        .forEach((migration) => {
+          migrated = migration.down(migrated);
+          applied.push(`down ${migration.version}: ${migration.description}`);
+        });
+    }
+
+    return { document: migrated, fromVersion, toVersion: targetVersion, applied };
+  }
+}
@@ -0,0 +1,3 @@
+export { Migration } from './Migration';
+export { MIGRATIONS, INITIAL_SCHEMA_VERSION, CURRENT_SCHEMA_VERSION } from './registry';
+export { MigrationRunner, MigrationResult } from './MigrationRunner';
@@ -0,0 +1,17 @@
+import { Migration } from './Migration';
+import { v2InputSpec } from './v2InputSpec';
+
+/**
+ * All migrations in version order; migration N takes a document from N-1 to N
+ */
+export const MIGRATIONS: Migration[] = [v2InputSpec];
+
+/**
+ * Documents without `schema_version` predate versioning
+ */
+export const INITIAL_SCHEMA_VERSION = 1;
+
+/**
+ * Version of CodingQuestionSchema in code
+ */
+export const CURRENT_SCHEMA_VERSION = INITIAL_SCHEMA_VERSION + MIGRATIONS.length;
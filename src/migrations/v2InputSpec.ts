@@ -0,0 +1,27 @@
+import { InputSpecParser } from '../validators/InputSpecParser';
+import { Migration } from './Migration';
+
+/**
+ * v1 -> v2: add the structured `inputSpec` derived from inputFormat and
+ * start recording `schema_version`
+ */
+export const v2InputSpec: Migration = {
+  version: 2,
+  description: 'Derive inputSpec from inputFormat',
+  up(document) {
+    const { inputSpec: _previous, ...rest } = document;
+    const inputSpec =
+      typeof rest.inputFormat === 'string' ? InputSpecParser.parse(rest.inputFormat) : null;
+
+    return {
+      ...rest,
+      ...(inputSpec && { inputSpec }),
+      schema_version: 2,
+    };
+  },
+  down(document) {
+    // v1 documents carry no version field
+    const { inputSpec: _inputSpec, schema_version: _version, ...rest } = document;
+    return rest;
+  },
+};
@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { ObjectId } from 'mongodb';
+import { InputSpecSchema } from './InputSpec';
 
 /**
  * Test Case Schema
@@ -62,6 +63,8 @@ export const CodingQuestionSchema = z.object({
   solutionCode: LanguageCodeSchema,
   inputFormat: z.string().min(1, 'inputFormat is required'),
   outputFormat: z.string().min(1, 'outputFormat is required'),
+  inputSpec: InputSpecSchema.optional(), // Derived from inputFormat by DocumentNormalizer
+  schema_version: z.number().int().positive().optional(), // Missing on legacy (v1) documents
 }).strict(); // Reject extra fields
 
 export type CodingQuestion = z.infer<typeof CodingQuestionSchema>;
@@ -71,20 +74,33 @@ export type CodingQuestion = z.infer<typeof CodingQuestionSchema>;
  */
 export class CodingQuestionValidator {
   /**
-   * Validate that test cases use stdin/stdout format
+   * True if text assigns a variable (e.g., "nums = [3,5], target = 8")
+   */
+  static usesAssignmentFormat(text: string): boolean {
+    return /^\s*[A-Za-z_]\w*\s*=(?!=)/m.test(text);
+  }
+
+  /**
+   * True if text is a whole-line list literal (e.g., "[1,2]")
+   */
+  static usesListLiteralFormat(text: string): boolean {
+    return /^\s*\[[^\n]*,[^\n]*\]\s*$/.test(text);
+  }
+
+  /**
+   * Validate that test cases use stdin/stdout format.
+   * Structural checks against inputFormat are done by InputSpecValidator;
+   * this only rejects LeetCode-style variable assignments and list literals.
    */
   static validateTestCaseFormat(testCase: TestCase): string[] {
     const errors: string[] = [];
 
-    // Check if input looks like stdin format (lines, numbers, etc.)
-    // Reject if it looks like variable assignment (e.g., "nums = [3,5]")
-    if (testCase.input.includes('=') || testCase.input.includes('[') && testCase.input.includes(']')) {
+    if (this.usesAssignmentFormat(testCase.input)) {
       errors.push(`Test case ${testCase.id}: Input should be in stdin format, not variable assignment format`);
     }
 
-    // Check if expectedOutput looks like stdout format
-    if (testCase.expectedOutput.includes('=') ||
-        (testCase.expectedOutput.includes('[') && testCase.expectedOutput.includes(']') && testCase.expectedOutput.includes(','))) {
+    if (this.usesAssignmentFormat(testCase.expectedOutput) ||
+        this.usesListLiteralFormat(testCase.expectedOutput)) {
       errors.push(`Test case ${testCase.id}: Expected output should be in stdout format, not data structure format`);
     }
 
@@ -106,6 +122,7 @@ export class CodingQuestionValidator {
 
   /**
    * Perform all custom validations
+   * @deprecated Use RuleRegistry, which reports structured errors with field paths
    */
   static performCustomValidations(question: CodingQuestion): string[] {
     const errors: string[] = [];
@@ -0,0 +1,58 @@
+import { z } from 'zod';
+
+/**
+ * A count is either a literal ("2 integers") or the value of a scalar read
+ * earlier in the input ("n", "m lines")
+ */
+export const InputCountSchema = z.union([
+  z.object({ value: z.number().int().nonnegative() }),
+  z.object({ variable: z.string().min(1) }),
+]);
+
+export type InputCount = z.infer<typeof InputCountSchema>;
+
+/**
+ * Value types that can be inferred from inputFormat notation
+ */
+export const InputValueTypeSchema = z.enum(['integer', 'any']);
+
+export type InputValueType = z.infer<typeof InputValueTypeSchema>;
+
+/**
+ * One entry of an input spec
+ * - scalars: one line holding named values ("n", "n m")
+ * - array:   one line holding `length` values ("a1 a2 ... an")
+ * - lines:   `count` lines, each holding named columns ("u1 v1 / ... / um vm")
+ *            or `width` values ("m lines of k integers", matrix rows)
+ */
+export const InputSpecLineSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('scalars'),
+    names: z.array(z.string().min(1)).min(1),
+  }),
+  z.object({
+    kind: z.literal('array'),
+    name: z.string().min(1),
+    length: InputCountSchema.optional(),
+    valueType: InputValueTypeSchema.default('any'),
+  }),
+  z.object({
+    kind: z.literal('lines'),
+    name: z.string().min(1),
+    count: InputCountSchema,
+    columns: z.array(z.string().min(1)).optional(),
+    width: InputCountSchema.optional(),
+    valueType: InputValueTypeSchema.default('any'),
+  }),
+]);
+
+export type InputSpecLine = z.infer<typeof InputSpecLineSchema>;
+
+/**
+ * Structured input specification derived from inputFormat's code block
+ */
+export const InputSpecSchema = z.object({
+  lines: z.array(InputSpecLineSchema).min(1),
+}).strict();
+
+export type InputSpec = z.infer<typeof InputSpecSchema>;
@@ -0,0 +1,20 @@
+/**
+ * Normalization Change Model - One deterministic fix made by a
+ * normalization step before validation
+ */
+export interface NormalizationChange {
+  step: string; // Id of the normalization step
+  field: string; // Dotted path, e.g. "testCases.0._id" or "topic_tags.2"
+  before?: any; // Missing when the field was added
+  after?: any; // Missing when the field was removed
+  count?: number; // Times the same replacement was made in the field (markup)
+}
+
+/**
+ * Format a change for logs, e.g. 'difficulty: "easy" → "Easy" (difficulty-case)'
+ */
+export function describeNormalizationChange(change: NormalizationChange): string {
+  const format = (value: any) => (value === undefined ? '(none)' : JSON.stringify(value));
+  const count = change.count && change.count > 1 ? ` x${change.count}` : '';
+  return `${change.field}: ${format(change.before)} → ${format(change.after)}${count} (${change.step})`;
+}
@@ -1,5 +1,6 @@
 import { CodingQuestion } from './CodingQuestion';
 import { ValidationError } from './ValidationError';
+import { NormalizationChange } from './NormalizationChange';
 
 /**
  * Queue Message Structure
@@ -8,6 +9,18 @@ export interface QueueMessage {
   documentId: string;
   failedDocument: CodingQuestion;
   validationErrors: ValidationError[];
+  normalizationChanges?: NormalizationChange[]; // Deterministic fixes made before validation
+  timestamp: string;
+  retryCount: number;
+}
+
+/**
+ * Body of a claim-checked message: the QueueMessage itself is kept in the
+ * payload store under `payloadRef`
+ */
+export interface ClaimCheckReference {
+  documentId: string;
+  payloadRef: string;
   timestamp: string;
   retryCount: number;
 }
@@ -36,6 +49,20 @@ export interface QueueStats {
   delayed: number;
 }
 
+/**
+ * Worker pool statistics of one QueueService
+ */
+export interface WorkerStats {
+  concurrency: number;
+  inFlight: number; // Messages being handled now
+  peakInFlight: number;
+  succeeded: number;
+  retried: number;
+  deadLettered: number; // Out of attempts or unreadable (deleted without a dead-letter queue)
+  visibilityExtensions: number; // Heartbeats that kept a message hidden
+  overdue: number; // Messages still running after the maximum processing time
+}
+
 /**
  * Processing Result
  */
@@ -6,8 +6,21 @@ export interface ValidationError {
   message: string;
   code: ValidationErrorCode;
   value?: any;
+  ruleId?: string; // Rule or validation stage that reported the error
+  severity?: ValidationSeverity; // Missing means 'error'
 }
 
+/**
+ * How serious a finding is. Only errors make a document invalid;
+ * warnings and info are reported but do not trigger AI correction.
+ */
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Severities from most to least serious
+ */
+export const SEVERITY_ORDER: ValidationSeverity[] = ['error', 'warning', 'info'];
+
 export enum ValidationErrorCode {
   MISSING_FIELD = 'MISSING_FIELD',
   INVALID_TYPE = 'INVALID_TYPE',
@@ -16,17 +29,71 @@ export enum ValidationErrorCode {
   EMPTY_ARRAY = 'EMPTY_ARRAY',
   EXTRA_FIELD = 'EXTRA_FIELD',
   CONSTRAINT_VIOLATION = 'CONSTRAINT_VIOLATION',
+  COMPILE_ERROR = 'COMPILE_ERROR',
+  RUNTIME_ERROR = 'RUNTIME_ERROR',
+  WRONG_ANSWER = 'WRONG_ANSWER',
+  TIMEOUT = 'TIMEOUT',
+  SOLUTION_DISAGREEMENT = 'SOLUTION_DISAGREEMENT',
+  PLACEHOLDER_CODE = 'PLACEHOLDER_CODE',
+  MARKUP_ARTIFACT = 'MARKUP_ARTIFACT',
 }
 
+/**
+ * Error codes that are scoped to a single solution language
+ * (field path starts with `solutionCode.<language>`)
+ */
+export const SOLUTION_ERROR_CODES: ValidationErrorCode[] = [
+  ValidationErrorCode.COMPILE_ERROR,
+  ValidationErrorCode.RUNTIME_ERROR,
+  ValidationErrorCode.WRONG_ANSWER,
+  ValidationErrorCode.TIMEOUT,
+  ValidationErrorCode.SOLUTION_DISAGREEMENT,
+  ValidationErrorCode.PLACEHOLDER_CODE,
+];
+
 /**
  * Validation Result
  */
 export interface ValidationResult {
-  isValid: boolean;
+  isValid: boolean; // True when there are no error-severity findings
   errors: ValidationError[];
+  warnings: ValidationError[]; // Warning and info findings
   documentId?: string;
 }
 
+/**
+ * Get the findings of a result that are at least as serious as the threshold
+ * (e.g. 'warning' returns errors and warnings, but not info)
+ */
+export function getFindingsAtOrAbove(
+  result: ValidationResult,
+  threshold: ValidationSeverity
+): ValidationError[] {
+  const limit = SEVERITY_ORDER.indexOf(threshold);
+  return [...result.errors, ...result.warnings].filter(
+    (finding) => SEVERITY_ORDER.indexOf(finding.severity || 'error') <= limit
+  );
+}
+
+/**
+ * Get the solution languages that need fixing when every error is scoped to
+ * a single language's solution. Returns an empty array if any error concerns
+ * the rest of the document, meaning a full correction is required.
+ */
+export function getTargetSolutionLanguages(errors: ValidationError[]): string[] {
+  const languages = new Set<string>();
+
+  for (const error of errors) {
+    const match = error.field.match(/^solutionCode\.([a-z]+)(?:\.|$)/);
+    if (!SOLUTION_ERROR_CODES.includes(error.code) || !match) {
+      return [];
+    }
+    languages.add(match[1]);
+  }
+
+  return Array.from(languages);
+}
+
 /**
  * Helper to create validation errors
  */
@@ -89,4 +156,70 @@ export class ValidationErrorFactory {
       code: ValidationErrorCode.CONSTRAINT_VIOLATION,
     };
   }
+
+  static compileError(field: string, language: string, details: string): ValidationError {
+    return {
+      field,
+      message: `${language} solution failed to compile: ${details}`,
+      code: ValidationErrorCode.COMPILE_ERROR,
+    };
+  }
+
+  static runtimeError(field: string, language: string, details: string): ValidationError {
+    return {
+      field,
+      message: `${language} solution crashed: ${details}`,
+      code: ValidationErrorCode.RUNTIME_ERROR,
+    };
+  }
+
+  static wrongAnswer(field: string, language: string, expected: string, actual: string): ValidationError {
+    return {
+      field,
+      message: `${language} solution produced wrong output`,
+      code: ValidationErrorCode.WRONG_ANSWER,
+      value: { expected, actual },
+    };
+  }
+
+  static timeout(field: string, language: string, limitMs: number): ValidationError {
+    return {
+      field,
+      message: `${language} solution exceeded time limit of ${limitMs}ms`,
+      code: ValidationErrorCode.TIMEOUT,
+    };
+  }
+
+  static solutionDisagreement(
+    field: string,
+    language: string,
+    input: string,
+    majorityOutput: string,
+    actual: string,
+    divergingInputs: number
+  ): ValidationError {
+    return {
+      field,
+      message: `${language} solution disagrees with the majority of languages on ${divergingInputs} input(s)`,
+      code: ValidationErrorCode.SOLUTION_DISAGREEMENT,
+      value: { input, majorityOutput, actual, divergingInputs },
+    };
+  }
+
+  static placeholderCode(field: string, reason: string): ValidationError {
+    return {
+      field,
+      message: `Field "${field}" is placeholder code, not a real solution: ${reason}`,
+      code: ValidationErrorCode.PLACEHOLDER_CODE,
+    };
+  }
+
+  static markupArtifact(field: string, artifacts: string[]): ValidationError {
+    return {
+      field,
+      message: `Field "${field}" contains markup instead of plain text: ${artifacts.join(', ')}`,
+      code: ValidationErrorCode.MARKUP_ARTIFACT,
+      value: artifacts,
+    };
+  }
 }
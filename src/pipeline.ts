@@ -0,0 +1,186 @@
+#!/usr/bin/env node
+
+import { loadConfig, validateConfig } from './config';
+import { Logger } from './utils/Logger';
+import { MongoDBService } from './services/MongoDBService';
+import { QueueService } from './services/QueueService';
+import { createDeadLetterQueue, createQueueBackend } from './services/queue';
+import { createClaimCheck } from './services/PayloadStore';
+import { ScannerService } from './services/ScannerService';
+import { UpdaterService } from './services/UpdaterService';
+import { AIProcessorService } from './services/AIProcessorService';
+import { CorrectionWorkerService } from './services/CorrectionWorkerService';
+import { WriteLedger } from './services/WriteLedger';
+import { ProcessingStateService } from './services/ProcessingStateService';
+import { SchemaValidator } from './validators/SchemaValidator';
+import { ValidationSeverity } from './models/ValidationError';
+import { hasFlag } from './utils/CliArgs';
+import { BackupManager } from './utils/BackupManager';
+import { FailureReportManager } from './utils/FailureReportManager';
+import { TagTaxonomy } from './utils/TagTaxonomy';
+
+/**
+ * How often the pipeline checks whether the queue has drained
+ */
+const DRAIN_CHECK_INTERVAL_MS = 5000;
+
+/**
+ * Pipeline CLI - Scans the collection and corrects the queued documents in
+ * one process, sharing one queue; with QUEUE_BACKEND=memory nothing else is
+ * needed besides MongoDB and the AI service
+ */
+async function main() {
+  let mongoService: MongoDBService | null = null;
+  let queueService: QueueService | null = null;
+
+  try {
+    console.log('='.repeat(60));
+    console.log('CODING QUESTION VALIDATOR - PIPELINE');
+    console.log('='.repeat(60));
+
+    // Load configuration
+    const config = loadConfig();
+    validateConfig(config);
+
+    // Initialize logger
+    const logger = Logger.initialize(config.app.logLevel);
+    logger.info('Configuration loaded successfully');
+
+    // Load the topic tag taxonomy (TAG_TAXONOMY_PATH replaces the bundled one)
+    TagTaxonomy.loadConfigured(config.validation);
+
+    // Initialize backup and failure report managers
+    const backupManager = new BackupManager(
+      config.app.failedQuestionsDir,
+      config.app.correctedQuestionsDir
+    );
+    await backupManager.initialize();
+    const failureReportManager = new FailureReportManager(config.app.failureReportPath);
+    await failureReportManager.initialize();
+
+    // Initialize MongoDB service
+    logger.info('Connecting to MongoDB...');
+    mongoService = new MongoDBService(config.mongodb);
+    await mongoService.connect();
+
+    if (config.watch.writeLedgerEnabled) {
+      const writeLedger = new WriteLedger(
+        mongoService,
+        config.watch.writeLedgerCollection,
+        config.watch.writeLedgerTtlSeconds
+      );
+      await writeLedger.initialize();
+      mongoService.setWriteLedger(writeLedger);
+    }
+
+    if (await mongoService.isEmpty()) {
+      logger.warn('Collection is empty. Nothing to scan.');
+      process.exit(0);
+    }
+
+    // One queue for the scanner and the correction worker
+    logger.info('Connecting to queue...');
+    queueService = new QueueService(
+      config.queue,
+      createQueueBackend(config.queue, mongoService),
+      createDeadLetterQueue(config.queue, mongoService),
+      createClaimCheck(config.payloads, mongoService)
+    );
+
+    // Initialize AI processor
+    const aiProcessor = new AIProcessorService(config.ai);
+    if (!(await aiProcessor.testConnection())) {
+      throw new Error('Failed to connect to AI service');
+    }
+    logger.info('AI service connection verified');
+
+    const validator = await SchemaValidator.fromExecutionConfig(config.execution, config.validation);
+    const updaterService = new UpdaterService(
+      mongoService,
+      config.app.retryMaxAttempts,
+      config.app.retryDelayMs,
+      validator
+    );
+    const processingState = config.processing.stateEnabled
+      ? new ProcessingStateService(mongoService, config.processing)
+      : undefined;
+
+    // Step 1: Scan and queue invalid documents
+    const scannerService = new ScannerService(
+      mongoService,
+      queueService,
+      backupManager,
+      config.app.batchSize,
+      validator,
+      config.app.queueSeverityThreshold as ValidationSeverity,
+      config.duplicates,
+      config.normalization,
+      updaterService,
+      processingState
+    );
+    logger.info('Starting scan...');
+    const scanStats = await scannerService.scanAndQueue({
+      applyFixes: hasFlag('normalize-and-apply'),
+      forceRequeue: hasFlag('force-requeue'),
+    });
+    logger.info('Scan statistics', scanStats);
+
+    // Step 2: Correct queued documents until the queue is empty
+    const correctionWorker = new CorrectionWorkerService(
+      aiProcessor,
+      validator,
+      updaterService,
+      backupManager,
+      failureReportManager,
+      config.app,
+      processingState
+    );
+    logger.info('Starting worker...', { concurrency: config.queue.concurrency });
+    correctionWorker.start(queueService);
+
+    for (;;) {
+      await new Promise((resolve) => setTimeout(resolve, DRAIN_CHECK_INTERVAL_MS));
+      const queueStats = await queueService.getStats();
+      logger.info('Worker statistics', {
+        ...correctionWorker.getStats(),
+        worker: queueService.getWorkerStats(),
+        queue: queueStats,
+      });
+      if (queueStats.waiting === 0 && queueStats.active === 0 && queueStats.delayed === 0) {
+        break;
+      }
+    }
+
+    logger.info('Pipeline completed', correctionWorker.getStats());
+    process.exit(0);
+  } catch (error) {
+    console.error('Fatal error:', (error as Error).message);
+    console.error((error as Error).stack);
+    process.exit(1);
+  } finally {
+    // Cleanup
+    if (queueService) {
+      await queueService.close().catch(console.error);
+    }
+    if (mongoService) {
+      await mongoService.disconnect().catch(console.error);
+    }
+  }
+}
+
+// Handle process signals
+process.on('SIGINT', async () => {
+  console.log('\nReceived SIGINT. Shutting down gracefully...');
+  process.exit(0);
+});
+
+process.on('SIGTERM', async () => {
+  console.log('\nReceived SIGTERM. Shutting down gracefully...');
+  process.exit(0);
+});
+
+// Run main
+main().catch((error) => {
+  console.error('Unhandled error:', error);
+  process.exit(1);
+});
@@ -7,12 +7,24 @@ import { ValidationError } from '../models/ValidationError';
  */
 export function generateComprehensiveCorrectionPrompt(
   document: CodingQuestion,
-  validationErrors: ValidationError[]
+  validationErrors: ValidationError[],
+  targetLanguages: string[] = []
 ): string {
   const errorSummary = validationErrors
-    .map((err, idx) => `${idx + 1}. Field: "${err.field}" - ${err.message}`)
+    .map((err, idx) => `${idx + 1}. Field: "${err.field}" - ${err.message}${formatErrorValue(err)}`)
     .join('\n');
 
+  const scopeSection = targetLanguages.length > 0
+    ? `
+## CORRECTION SCOPE (CRITICAL)
+Only the solutionCode for these languages is wrong: ${targetLanguages.join(', ')}.
+Rewrite ONLY solutionCode.${targetLanguages.join(', solutionCode.')} as complete, correct solutions that pass every test case.
+Return every other field EXACTLY as provided in the original document.
+
+---
+`
+    : '';
+
   return `You are a professional coding assistant and data formatter that fixes and enhances algorithmic problem documents into standardized JSON with fully working solutions in five programming languages.
 
 ## YOUR TASK
@@ -31,7 +43,7 @@ Fix the provided coding question document that has validation errors and ensure
 ${errorSummary}
 
 ---
-
+${scopeSection}
 ## TARGET JSON SCHEMA
 {
   "_id": "${document._id}" // PRESERVE EXACTLY - DO NOT CHANGE,
@@ -329,6 +341,16 @@ Return **ONLY** the corrected JSON object following the schema above.
 **CRITICAL**: Your response must be PURE JSON only - no markdown code blocks, no explanations, no extra text. Start with { and end with }.`;
 }
 
+/**
+ * Append structured error details (e.g. expected vs actual output) to an error line
+ */
+function formatErrorValue(err: ValidationError): string {
+  if (err.value === undefined || err.value === null || typeof err.value !== 'object') {
+    return '';
+  }
+  return `\n   Details: ${JSON.stringify(err.value)}`;
+}
+
 /**
  * Parse AI response (same as before)
  */
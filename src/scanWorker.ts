@@ -0,0 +1,155 @@
+import { parentPort, workerData } from 'worker_threads';
+import { loadConfig } from './config';
+import { Logger } from './utils/Logger';
+import { MongoDBService } from './services/MongoDBService';
+import { QueueService } from './services/QueueService';
+import { createQueueBackend } from './services/queue';
+import { createClaimCheck } from './services/PayloadStore';
+import { ScannerService } from './services/ScannerService';
+import { UpdaterService } from './services/UpdaterService';
+import { WriteLedger } from './services/WriteLedger';
+import { ProcessingStateService } from './services/ProcessingStateService';
+import { PartitionCoordinator, ScanPartition } from './services/PartitionCoordinator';
+import { ScanWorkerData, ScanWorkerResult } from './services/PartitionedScanner';
+import { SchemaValidator } from './validators/SchemaValidator';
+import { BackupManager } from './utils/BackupManager';
+import { ScanFilter } from './utils/ScanFilter';
+import { TagTaxonomy } from './utils/TagTaxonomy';
+
+/**
+ * Scan Worker - Worker thread of a partitioned scan. Claims _id ranges
+ * until none are left and scans each one with its own ScannerService, so
+ * validation runs off the main thread's event loop.
+ */
+async function main(data: ScanWorkerData): Promise<ScanWorkerResult> {
+  const result: ScanWorkerResult = { partitions: 0, failed: 0 };
+  let mongoService: MongoDBService | null = null;
+  let queueService: QueueService | null = null;
+
+  try {
+    const config = loadConfig();
+    const logger = Logger.initialize(config.app.logLevel);
+
+    TagTaxonomy.loadConfigured(config.validation);
+
+    const backupManager = new BackupManager(
+      config.app.failedQuestionsDir,
+      config.app.correctedQuestionsDir
+    );
+    await backupManager.initialize();
+
+    mongoService = new MongoDBService(config.mongodb);
+    await mongoService.connect();
+    if (config.watch.writeLedgerEnabled) {
+      mongoService.setWriteLedger(
+        new WriteLedger(
+          mongoService,
+          config.watch.writeLedgerCollection,
+          config.watch.writeLedgerTtlSeconds
+        )
+      );
+    }
+
+    queueService = new QueueService(
+      config.queue,
+      createQueueBackend(config.queue, mongoService),
+      undefined, // Only workers dead-letter messages
+      createClaimCheck(config.payloads, mongoService)
+    );
+    const validator = await SchemaValidator.fromExecutionConfig(config.execution, config.validation);
+    const updaterService = data.applyFixes
+      ? new UpdaterService(
+          mongoService,
+          config.app.retryMaxAttempts,
+          config.app.retryDelayMs,
+          validator
+        )
+      : undefined;
+
+    // No duplicate detection: it needs the whole collection, not one range
+    const scannerService = new ScannerService(
+      mongoService,
+      queueService,
+      backupManager,
+      config.app.batchSize,
+      validator,
+      data.queueThreshold,
+      undefined,
+      { disabledSteps: data.disabledSteps },
+      updaterService,
+      config.processing.stateEnabled
+        ? new ProcessingStateService(mongoService, config.processing)
+        : undefined
+    );
+    const coordinator = new PartitionCoordinator(mongoService, config.partitions);
+    const filter = data.filter ? ScanFilter.parseQuery(data.filter) : {};
+
+    let partition: ScanPartition | null;
+    while ((partition = await coordinator.claim(data.planId, data.owner))) {
+      const claimed = partition;
+      logger.info('Scanning partition', {
+        owner: data.owner,
+        partition: claimed.index,
+        attempt: claimed.attempts,
+      });
+
+      // Keep the claim while the range is being scanned; stop scanning once
+      // another worker has taken it over, so no range is scanned twice at once
+      const leaseLost = new AbortController();
+      const lease = setInterval(() => {
+        coordinator
+          .renew(claimed, data.owner)
+          .then((held) => {
+            if (!held && !leaseLost.signal.aborted) {
+              logger.warn('Lost partition lease to another worker', { partition: claimed.index });
+              leaseLost.abort(new Error(`Lost the lease of partition ${claimed.index}`));
+            }
+          })
+          .catch((error) =>
+            logger.error('Failed to renew partition lease', {
+              partition: claimed.index,
+              error: (error as Error).message,
+            })
+          );
+      }, Math.max(1000, Math.floor(config.partitions.leaseMs / 3)));
+
+      try {
+        const stats = await scannerService.scanAndQueue({
+          applyFixes: data.applyFixes,
+          forceRequeue: data.forceRequeue,
+          filter: ScanFilter.combine(filter, PartitionCoordinator.rangeFilter(claimed)),
+          signal: leaseLost.signal,
+        });
+        if (leaseLost.signal.aborted) {
+          continue; // The new owner completes the range
+        }
+        await coordinator.complete(claimed, data.owner, JSON.parse(JSON.stringify(stats)));
+        result.partitions++;
+      } catch (error) {
+        if (leaseLost.signal.aborted) {
+          continue; // Stopped on purpose; the range belongs to another worker now
+        }
+        logger.error('Partition scan failed', {
+          partition: claimed.index,
+          error: (error as Error).message,
+        });
+        await coordinator.fail(claimed, data.owner, error as Error);
+        result.failed++;
+      } finally {
+        clearInterval(lease);
+      }
+    }
+
+    return result;
+  } finally {
+    if (mongoService) {
+      await mongoService.disconnect().catch(console.error);
+    }
+    if (queueService) {
+      await queueService.close().catch(console.error);
+    }
+  }
+}
+
+// A rejection ends the thread and reaches the main thread as an 'error' event
+main(workerData as ScanWorkerData).then((result) => parentPort?.postMessage(result));
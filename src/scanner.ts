@@ -1,11 +1,63 @@
 #!/usr/bin/env node
 
+import fs from 'fs/promises';
+import { Document, Filter } from 'mongodb';
 import { loadConfig, validateConfig } from './config';
 import { Logger } from './utils/Logger';
 import { MongoDBService } from './services/MongoDBService';
 import { QueueService } from './services/QueueService';
+import { createQueueBackend } from './services/queue';
+import { createClaimCheck } from './services/PayloadStore';
 import { BackupManager } from './utils/BackupManager';
 import { ScannerService } from './services/ScannerService';
+import { UpdaterService } from './services/UpdaterService';
+import { createCheckpointStore, WatchCheckpoint } from './services/CheckpointStore';
+import { WriteLedger } from './services/WriteLedger';
+import { PartitionedScanner } from './services/PartitionedScanner';
+import { ProcessingStateService } from './services/ProcessingStateService';
+import { SchemaValidator } from './validators/SchemaValidator';
+import { SEVERITY_ORDER, ValidationSeverity } from './models/ValidationError';
+import { getArgValue, hasFlag } from './utils/CliArgs';
+import { TagTaxonomy } from './utils/TagTaxonomy';
+import { DocumentNormalizer } from './utils/DocumentNormalizer';
+import { ScanFilter } from './utils/ScanFilter';
+
+/**
+ * Build the scan filter from --filter, --ids-file, --difficulty, --tag,
+ * --since/--until and --time-field
+ */
+async function parseScanFilter(mongoService: MongoDBService): Promise<Filter<Document>> {
+  const list = (value: string | undefined) =>
+    (value || '')
+      .split(',')
+      .map((item) => item.trim())
+      .filter((item) => item.length > 0);
+
+  const query = getArgValue('filter');
+  const idsFile = getArgValue('ids-file');
+  const since = getArgValue('since');
+  const until = getArgValue('until');
+  const tags = list(getArgValue('tag'));
+
+  return ScanFilter.build({
+    query: query ? ScanFilter.parseQuery(query) : undefined,
+    ids: idsFile ? ScanFilter.parseIdList(await fs.readFile(idsFile, 'utf-8')) : undefined,
+    difficulties: list(getArgValue('difficulty')),
+    tags,
+    knownTags:
+      tags.length > 0
+        ? (await mongoService.getDistinctValues('topic_tags')).filter(
+            (tag): tag is string => typeof tag === 'string'
+          )
+        : undefined,
+    since: since ? ScanFilter.parseDate(since) : undefined,
+    until: until ? ScanFilter.parseDate(until) : undefined,
+    timeField: getArgValue('time-field'),
+  });
+}
+
+// Set while --watch runs, so a signal ends the watch instead of the process
+let watchingScanner: ScannerService | null = null;
 
 /**
  * Scanner CLI - Scans MongoDB and queues invalid documents
@@ -27,6 +79,16 @@ async function main() {
     const logger = Logger.initialize(config.app.logLevel);
     logger.info('Configuration loaded successfully');
 
+    // The memory queue lives in this process: jobs would vanish on exit
+    if (config.queue.backend === 'memory') {
+      throw new Error(
+        'QUEUE_BACKEND=memory only works with the scanner and consumer in one process; use npm run pipeline'
+      );
+    }
+
+    // Load the topic tag taxonomy (TAG_TAXONOMY_PATH replaces the bundled one)
+    TagTaxonomy.loadConfigured(config.validation);
+
     // Initialize backup manager
     const backupManager = new BackupManager(
       config.app.failedQuestionsDir,
@@ -39,32 +101,187 @@ async function main() {
     mongoService = new MongoDBService(config.mongodb);
     await mongoService.connect();
 
-    // Check if collection is empty
+    // Targeted scan (parsed after the taxonomy is loaded, for tag synonyms)
+    const filter = await parseScanFilter(mongoService);
+    const filtered = Object.keys(filter).length > 0;
+    if (filtered && (hasFlag('watch') || hasFlag('migrate'))) {
+      throw new Error('Filter options only apply to scans, not to --watch or --migrate');
+    }
+
+    // Record the pipeline's own writes so watch mode does not validate them again
+    let writeLedger: WriteLedger | null = null;
+    if (config.watch.writeLedgerEnabled) {
+      writeLedger = new WriteLedger(
+        mongoService,
+        config.watch.writeLedgerCollection,
+        config.watch.writeLedgerTtlSeconds
+      );
+      await writeLedger.initialize();
+      mongoService.setWriteLedger(writeLedger);
+    }
+
+    // Check if collection is empty (watch mode waits for inserts)
+    const watch = hasFlag('watch');
     const isEmpty = await mongoService.isEmpty();
-    if (isEmpty) {
+    if (isEmpty && !watch) {
       logger.warn('Collection is empty. Nothing to scan.');
       process.exit(0);
     }
 
     // Initialize queue service
     logger.info('Connecting to queue...');
-    queueService = new QueueService(config.queue);
+    queueService = new QueueService(
+      config.queue,
+      createQueueBackend(config.queue, mongoService),
+      undefined, // Only workers dead-letter messages
+      createClaimCheck(config.payloads, mongoService)
+    );
+
+    // Bulk migration mode: rewrite documents to a schema version, nothing is queued
+    if (hasFlag('migrate')) {
+      const targetArg = getArgValue('to');
+      const targetVersion = targetArg !== undefined ? parseInt(targetArg, 10) : undefined;
+      if (targetVersion !== undefined && Number.isNaN(targetVersion)) {
+        throw new Error(`Invalid --to "${targetArg}". Must be a schema version number`);
+      }
+      const migrationService = new ScannerService(
+        mongoService,
+        queueService,
+        backupManager,
+        config.app.batchSize
+      );
+      const migrationStats = await migrationService.migrateAll(targetVersion, hasFlag('dry-run'));
+      logger.info('Migration statistics', migrationStats);
+      process.exit(migrationStats.errors > 0 ? 1 : 0);
+    }
 
     // Get queue stats before scan
     const queueStatsBefore = await queueService.getStats();
     logger.info('Queue status before scan', queueStatsBefore);
 
+    // Initialize validator (with sandboxed execution stages if enabled)
+    const validator = await SchemaValidator.fromExecutionConfig(config.execution, config.validation);
+
+    // Queue threshold for this run (--queue-threshold overrides QUEUE_SEVERITY_THRESHOLD)
+    const queueThreshold = (getArgValue('queue-threshold') ||
+      config.app.queueSeverityThreshold) as ValidationSeverity;
+    if (!SEVERITY_ORDER.includes(queueThreshold)) {
+      throw new Error(
+        `Invalid --queue-threshold "${queueThreshold}". Must be one of: ${SEVERITY_ORDER.join(', ')}`
+      );
+    }
+
+    // Normalization steps to skip in this run (--skip-steps adds to NORMALIZATION_DISABLED_STEPS)
+    const skippedSteps = (getArgValue('skip-steps') || '')
+      .split(',')
+      .map((step) => step.trim())
+      .filter((step) => step.length > 0);
+    const stepIds = DocumentNormalizer.getSteps().map((step) => step.id);
+    const normalizationConfig = {
+      disabledSteps: Array.from(new Set([...config.normalization.disabledSteps, ...skippedSteps])),
+    };
+    const unknownSteps = normalizationConfig.disabledSteps.filter((step) => !stepIds.includes(step));
+    if (unknownSteps.length > 0) {
+      throw new Error(
+        `Unknown normalization step(s): ${unknownSteps.join(', ')}. Must be one of: ${stepIds.join(', ')}`
+      );
+    }
+
+    // Normalize-and-apply mode: write deterministic fixes back instead of discarding them
+    const applyFixes = hasFlag('normalize-and-apply');
+    const updaterService = applyFixes
+      ? new UpdaterService(
+          mongoService,
+          config.app.retryMaxAttempts,
+          config.app.retryDelayMs,
+          validator
+        )
+      : undefined;
+
+    // Processing state keeps documents pending correction from being queued twice
+    const forceRequeue = hasFlag('force-requeue');
+    const processingState = config.processing.stateEnabled
+      ? new ProcessingStateService(mongoService, config.processing)
+      : undefined;
+
+    if (processingState) {
+      logger.info('Processing state before scan', await processingState.getCounts());
+    }
+
+    // Checkpoints let an interrupted scan continue with --resume
+    const resume = hasFlag('resume');
+    const checkpointStore = createCheckpointStore(config.checkpoint, mongoService);
+    const checkpoint = checkpointStore
+      ? { store: checkpointStore, intervalBatches: config.checkpoint.intervalBatches }
+      : undefined;
+
     // Initialize scanner service
     const scannerService = new ScannerService(
       mongoService,
       queueService,
       backupManager,
-      config.app.batchSize
+      config.app.batchSize,
+      validator,
+      queueThreshold,
+      config.duplicates,
+      normalizationConfig,
+      updaterService,
+      processingState
     );
 
+    // Watch mode: validate changes as they happen until the process is stopped
+    if (watch) {
+      const tokenStore = createCheckpointStore<WatchCheckpoint>(
+        config.checkpoint,
+        mongoService,
+        config.watch.resumeTokenPath
+      );
+      logger.info('Starting watch...');
+      watchingScanner = scannerService;
+      const watchStats = await scannerService.watch({ applyFixes, tokenStore, writeLedger });
+      logger.info('Watch statistics', watchStats);
+      process.exit(0);
+    }
+
+    // Partitioned mode: worker threads scan _id ranges shared with other scanner processes
+    const workersArg = getArgValue('workers');
+    const workers = workersArg !== undefined ? parseInt(workersArg, 10) : config.partitions.workers;
+    if (!Number.isInteger(workers) || workers < 1) {
+      throw new Error(`Invalid --workers "${workersArg}". Must be a positive number`);
+    }
+    if (workers > 1) {
+      if (resume) {
+        throw new Error(
+          '--resume does not apply to partitioned scans; they always join the running plan'
+        );
+      }
+      if (config.duplicates.enabled) {
+        logger.warn('Duplicate detection is skipped in partitioned scans');
+      }
+      const partitionedScanner = new PartitionedScanner(mongoService, config.partitions);
+      const result = await partitionedScanner.run({
+        workers,
+        queueThreshold,
+        disabledSteps: normalizationConfig.disabledSteps,
+        applyFixes,
+        forceRequeue,
+        filter,
+      });
+      if (result.stats) {
+        scannerService.logFinalStats(result.stats, 'PARTITIONED SCAN COMPLETED');
+      }
+      process.exit(result.progress.failed > 0 ? 1 : 0);
+    }
+
     // Run scan
-    logger.info('Starting scan...');
-    const stats = await scannerService.scanAndQueue();
+    logger.info('Starting scan...', filtered ? { filter: ScanFilter.describe(filter) } : {});
+    const stats = await scannerService.scanAndQueue({
+      applyFixes,
+      checkpoint,
+      resume,
+      filter,
+      forceRequeue,
+    });
     logger.info('Scan statistics', stats);
 
     // Get queue stats after scan
@@ -94,15 +311,20 @@ async function main() {
 }
 
 // Handle process signals
-process.on('SIGINT', async () => {
-  console.log('\nReceived SIGINT. Shutting down gracefully...');
+async function shutdown(signal: string) {
+  console.log(`\nReceived ${signal}. Shutting down gracefully...`);
+  if (watchingScanner) {
+    // watch() returns, logs its statistics and exits
+    const scanner = watchingScanner;
+    watchingScanner = null;
+    await scanner.stopWatching().catch(console.error);
+    return;
+  }
   process.exit(0);
-});
+}
 
-process.on('SIGTERM', async () => {
-  console.log('\nReceived SIGTERM. Shutting down gracefully...');
-  process.exit(0);
-});
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
 
 // Run main
 main().catch((error) => {
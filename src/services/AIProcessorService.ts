@@ -1,10 +1,20 @@
 import OpenAI from 'openai';
 import { AIConfig } from '../config/ai.config';
-import { CodingQuestion } from '../models/CodingQuestion';
+import { CodingQuestion, LanguageCode } from '../models/CodingQuestion';
 import { ValidationError } from '../models/ValidationError';
 import { logger } from '../utils/Logger';
+import { MigrationRunner } from '../migrations';
 import { generateComprehensiveCorrectionPrompt, parseComprehensiveAIResponse } from '../prompts/comprehensive-correction-prompt';
 
+/**
+ * Options for a single correction request
+ */
+export interface CorrectionOptions {
+  // Restrict the correction to these solutionCode languages; every other
+  // field of the original document is kept as-is
+  targetLanguages?: string[];
+}
+
 /**
  * AI Processor Service using OpenAI API with comprehensive solution generation
  */
@@ -13,6 +23,7 @@ export class AIProcessorService {
   private config: AIConfig;
   private readonly MAX_RETRIES_FOR_LENGTH = 3;
   private readonly TOKEN_PROGRESSION = [100000, 150000, 200000]; // Progressive token limits
+  private migrationRunner = new MigrationRunner();
 
   constructor(config: AIConfig) {
     this.config = config;
@@ -26,9 +37,11 @@ export class AIProcessorService {
    */
   async correctDocument(
     document: CodingQuestion,
-    validationErrors: ValidationError[]
+    validationErrors: ValidationError[],
+    options: CorrectionOptions = {}
   ): Promise<CodingQuestion> {
     let lastError: Error | null = null;
+    const targetLanguages = options.targetLanguages || [];
 
     // Try with progressive token limits if length error occurs
     for (let attempt = 0; attempt < this.MAX_RETRIES_FOR_LENGTH; attempt++) {
@@ -41,10 +54,15 @@ export class AIProcessorService {
           errorCount: validationErrors.length,
           attempt: attempt + 1,
           maxTokens,
+          targetLanguages,
         });
 
         // Generate comprehensive prompt
-        const prompt = generateComprehensiveCorrectionPrompt(document, validationErrors);
+        const prompt = generateComprehensiveCorrectionPrompt(
+          document,
+          validationErrors,
+          targetLanguages
+        );
 
         // Call OpenAI API
         const response = await this.client.chat.completions.create({
@@ -114,7 +132,21 @@ export class AIProcessorService {
         });
 
         // Parse response using comprehensive parser
-        const correctedDocument = parseComprehensiveAIResponse(aiResponse);
+        let correctedDocument = parseComprehensiveAIResponse(aiResponse);
+
+        // Scoped correction: only take the targeted solutions from the AI
+        if (targetLanguages.length > 0) {
+          correctedDocument = this.mergeTargetedSolutions(
+            document,
+            correctedDocument,
+            targetLanguages
+          );
+        }
+
+        // The AI writes the base (v1) shape; re-derive versioned fields such
+        // as inputSpec from its output with the migrations
+        delete correctedDocument.schema_version;
+        correctedDocument = this.migrationRunner.migrate(correctedDocument).document;
 
         // Ensure _id is preserved
         if (document._id) {
@@ -167,6 +199,32 @@ export class AIProcessorService {
     throw lastError || new Error('AI processing failed after all retry attempts');
   }
 
+  /**
+   * Keep the original document and replace only the targeted solutions
+   */
+  private mergeTargetedSolutions(
+    original: CodingQuestion,
+    corrected: CodingQuestion,
+    targetLanguages: string[]
+  ): CodingQuestion {
+    const solutionCode: LanguageCode = { ...original.solutionCode };
+
+    targetLanguages.forEach((language) => {
+      const key = language as keyof LanguageCode;
+      const code = corrected.solutionCode?.[key];
+      if (typeof code === 'string' && code.length > 0) {
+        solutionCode[key] = code;
+      } else {
+        logger.warn('AI response is missing targeted solution, keeping original', {
+          questionId: original.question_id,
+          language,
+        });
+      }
+    });
+
+    return { ...original, solutionCode };
+  }
+
   /**
    * Test AI connection
    */
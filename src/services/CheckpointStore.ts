@@ -0,0 +1,140 @@
+import fs from 'fs/promises';
+import { ObjectId } from 'mongodb';
+import { CheckpointConfig } from '../config/checkpoint.config';
+import { MongoDBService } from './MongoDBService';
+import { logger } from '../utils/Logger';
+
+/**
+ * Saved progress of a scan. `stats` is the scan's running ScanStats as
+ * JSON (dates as ISO strings).
+ */
+export interface ScanCheckpoint {
+  scope: string; // "<database>.<collection>" being scanned
+  status: 'running' | 'completed';
+  lastProcessedId: SerializedId;
+  filter?: string; // Extended JSON of the scan filter, when the scan was targeted
+  stats: Record<string, any>;
+  startedAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Saved position of a change stream watch
+ */
+export interface WatchCheckpoint {
+  scope: string; // "<database>.<collection>#watch"
+  resumeToken: Record<string, any>;
+  updatedAt: string;
+}
+
+/**
+ * An _id that survives JSON: ObjectIds are stored as hex strings
+ */
+export type SerializedId = { objectId: string } | { value: string | number };
+
+/**
+ * Checkpoint Store - Persists scan progress so an interrupted scan can resume
+ * (and change stream positions so a restarted watch misses no events)
+ */
+export interface CheckpointStore<T extends { scope: string } = ScanCheckpoint> {
+  load(scope: string): Promise<T | null>;
+  save(checkpoint: T): Promise<void>;
+}
+
+/**
+ * Keeps the checkpoint in a local JSON file
+ */
+export class FileCheckpointStore<T extends { scope: string } = ScanCheckpoint>
+  implements CheckpointStore<T>
+{
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(scope: string): Promise<T | null> {
+    try {
+      const checkpoint = JSON.parse(await fs.readFile(this.filePath, 'utf-8')) as T;
+      return checkpoint.scope === scope ? checkpoint : null;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async save(checkpoint: T): Promise<void> {
+    // Write then rename so a crash mid-write never leaves a truncated file
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(checkpoint, null, 2), 'utf-8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+/**
+ * Keeps checkpoints in a MongoDB collection, one document per scope
+ */
+export class MongoCheckpointStore<T extends { scope: string } = ScanCheckpoint>
+  implements CheckpointStore<T>
+{
+  private mongoService: MongoDBService;
+  private collectionName: string;
+
+  constructor(mongoService: MongoDBService, collectionName: string) {
+    this.mongoService = mongoService;
+    this.collectionName = collectionName;
+  }
+
+  async load(scope: string): Promise<T | null> {
+    const document = await this.collection().findOne({ _id: scope });
+    if (!document) {
+      return null;
+    }
+    const { _id, ...checkpoint } = document;
+    return checkpoint as unknown as T;
+  }
+
+  async save(checkpoint: T): Promise<void> {
+    await this.collection().replaceOne({ _id: checkpoint.scope }, checkpoint, { upsert: true });
+  }
+
+  private collection() {
+    return this.mongoService.getNamedCollection<{ _id: string; scope: string }>(this.collectionName);
+  }
+}
+
+/**
+ * Create the configured store; null when checkpointing is off. The file
+ * store holds one checkpoint, so other kinds of checkpoint pass their own file.
+ */
+export function createCheckpointStore<T extends { scope: string } = ScanCheckpoint>(
+  config: CheckpointConfig,
+  mongoService: MongoDBService,
+  filePath: string = config.filePath
+): CheckpointStore<T> | null {
+  switch (config.store) {
+    case 'file':
+      return new FileCheckpointStore<T>(filePath);
+    case 'mongo':
+      return new MongoCheckpointStore<T>(mongoService, config.collection);
+    default:
+      logger.info('Scan checkpoints disabled');
+      return null;
+  }
+}
+
+export function serializeId(id: any): SerializedId {
+  if (id instanceof ObjectId) {
+    return { objectId: id.toHexString() };
+  }
+  if (typeof id === 'string' || typeof id === 'number') {
+    return { value: id };
+  }
+  throw new Error(`Cannot checkpoint _id of type ${typeof id}`);
+}
+
+export function deserializeId(id: SerializedId): any {
+  return 'objectId' in id ? new ObjectId(id.objectId) : id.value;
+}
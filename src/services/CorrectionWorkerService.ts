@@ -0,0 +1,189 @@
+import { AppConfig } from '../config';
+import { QueueMessage } from '../models/QueueMessage';
+import { getTargetSolutionLanguages } from '../models/ValidationError';
+import { SchemaValidator } from '../validators/SchemaValidator';
+import { BackupManager } from '../utils/BackupManager';
+import { FailureReportManager } from '../utils/FailureReportManager';
+import { logger } from '../utils/Logger';
+import { AIProcessorService } from './AIProcessorService';
+import { ProcessingStateService } from './ProcessingStateService';
+import { QueueService } from './QueueService';
+import { UpdaterService } from './UpdaterService';
+
+/**
+ * Correction worker statistics
+ */
+export interface CorrectionStats {
+  processed: number;
+  successful: number;
+  failed: number;
+}
+
+/**
+ * Correction Worker Service - Handles queued documents: AI correction,
+ * validation of the result, update in MongoDB and failure reporting.
+ * Used by the consumer and by the single-process pipeline.
+ */
+export class CorrectionWorkerService {
+  private aiProcessor: AIProcessorService;
+  private validator: SchemaValidator;
+  private updaterService: UpdaterService;
+  private backupManager: BackupManager;
+  private failureReportManager: FailureReportManager;
+  private appConfig: AppConfig;
+  private processingState?: ProcessingStateService;
+  private stats: CorrectionStats = { processed: 0, successful: 0, failed: 0 };
+
+  constructor(
+    aiProcessor: AIProcessorService,
+    validator: SchemaValidator,
+    updaterService: UpdaterService,
+    backupManager: BackupManager,
+    failureReportManager: FailureReportManager,
+    appConfig: AppConfig,
+    processingState?: ProcessingStateService
+  ) {
+    this.aiProcessor = aiProcessor;
+    this.validator = validator;
+    this.updaterService = updaterService;
+    this.backupManager = backupManager;
+    this.failureReportManager = failureReportManager;
+    this.appConfig = appConfig;
+    this.processingState = processingState;
+  }
+
+  /**
+   * Register the handler as a worker of the queue
+   */
+  start(queueService: QueueService): void {
+    queueService.createWorker((message) => this.handleMessage(message));
+  }
+
+  getStats(): CorrectionStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Correct one queued document; throws to let the queue retry it
+   */
+  async handleMessage(message: QueueMessage): Promise<void> {
+    const startTime = Date.now();
+    const { documentId, failedDocument, validationErrors, retryCount } = message;
+
+    logger.info('Processing message', {
+      documentId,
+      questionId: failedDocument.question_id,
+      errorCount: validationErrors.length,
+      normalizationChangeCount: message.normalizationChanges?.length || 0, // Fixed before the AI
+      retryCount,
+    });
+    await this.processingState?.markInProgress(documentId);
+
+    try {
+      // Step 1: Call AI to correct document (only the failing solutions when
+      // every error is scoped to solutionCode languages)
+      const targetLanguages = getTargetSolutionLanguages(validationErrors);
+      logger.info('Calling AI to correct document', { documentId, targetLanguages });
+      const correctedDocument = await this.aiProcessor.correctDocument(
+        failedDocument,
+        validationErrors,
+        { targetLanguages }
+      );
+
+      // Step 2: Validate AI-corrected document
+      logger.info('Validating AI-corrected document', { documentId });
+      const validationResult = await this.validator.validateWithExecution(correctedDocument);
+
+      if (!validationResult.isValid) {
+        logger.error('AI-corrected document still has validation errors', {
+          documentId,
+          errorCount: validationResult.errors.length,
+          errors: validationResult.errors,
+        });
+
+        // Throw error to trigger retry
+        throw new Error(
+          `AI correction failed: ${validationResult.errors.length} validation errors remain`
+        );
+      }
+
+      logger.info('AI-corrected document passed validation', { documentId });
+
+      // Step 3: Update document in MongoDB
+      logger.info('Updating document in MongoDB', { documentId });
+      const updated = await this.updaterService.updateDocument(documentId, correctedDocument);
+
+      if (!updated) {
+        throw new Error('Failed to update document in MongoDB');
+      }
+
+      // Step 4: Save corrected document to corrected_questions directory
+      logger.info('Saving corrected document', { documentId });
+      try {
+        await this.backupManager.saveCorrectedDocument(correctedDocument);
+      } catch (saveError) {
+        logger.error('Failed to save corrected document', {
+          documentId,
+          error: (saveError as Error).message,
+        });
+        // Don't throw - document was already updated in MongoDB
+      }
+
+      // Success
+      await this.processingState?.markCorrected(documentId);
+      const duration = Date.now() - startTime;
+      this.stats.successful++;
+      this.stats.processed++;
+
+      logger.info('Message processed successfully', {
+        documentId,
+        questionId: correctedDocument.question_id,
+        durationMs: duration,
+        successCount: this.stats.successful,
+        failureCount: this.stats.failed,
+      });
+    } catch (error) {
+      this.stats.failed++;
+      this.stats.processed++;
+
+      logger.error('Message processing failed', {
+        documentId,
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+        retryCount,
+      });
+
+      // The document stays pending while retries remain
+      const finalAttempt = retryCount >= this.appConfig.retryMaxAttempts - 1;
+      await this.processingState?.markFailed(documentId, (error as Error).message, finalAttempt);
+
+      // If this was the last retry attempt, log to failure report
+      if (finalAttempt) {
+        logger.warn('Max retry attempts reached, logging to failure report', {
+          documentId,
+          retryCount,
+        });
+
+        try {
+          const backupFilePath = `${this.appConfig.failedQuestionsDir}/${(failedDocument as any).slug || 'unknown'}_${documentId}.json`;
+          const failureEntry = FailureReportManager.createFailureEntry(
+            failedDocument,
+            validationErrors,
+            (error as Error).message,
+            retryCount + 1,
+            backupFilePath
+          );
+          await this.failureReportManager.logFailure(failureEntry);
+        } catch (reportError) {
+          logger.error('Failed to log failure to report', {
+            documentId,
+            error: (reportError as Error).message,
+          });
+        }
+      }
+
+      // Re-throw to let the queue handle retry
+      throw error;
+    }
+  }
+}
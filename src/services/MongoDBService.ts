@@ -1,7 +1,35 @@
-import { MongoClient, Db, Collection, Document, ObjectId } from 'mongodb';
+import {
+  MongoClient,
+  Db,
+  Collection,
+  Document,
+  Filter,
+  ObjectId,
+  ChangeStream,
+  ChangeStreamDocument,
+  ResumeToken,
+} from 'mongodb';
 import { MongoDBConfig } from '../config/mongodb.config';
 import { logger } from '../utils/Logger';
 import { CodingQuestion } from '../models/CodingQuestion';
+import { WriteLedger } from './WriteLedger';
+
+/**
+ * Collection validator options as stored by MongoDB
+ */
+export interface CollectionValidatorOptions {
+  validator?: Document;
+  validationLevel?: 'off' | 'strict' | 'moderate';
+  validationAction?: 'error' | 'warn';
+}
+
+/**
+ * Options for fetching documents in batches
+ */
+export interface FetchOptions {
+  afterId?: any; // Only documents with a greater _id (resume point)
+  filter?: Filter<Document>; // Targeted scan (see ScanFilter)
+}
 
 /**
  * MongoDB Service for database operations
@@ -11,6 +39,7 @@ export class MongoDBService {
   private db: Db | null = null;
   private collection: Collection<Document> | null = null;
   private config: MongoDBConfig;
+  private writeLedger?: WriteLedger;
 
   constructor(config: MongoDBConfig) {
     this.config = config;
@@ -81,13 +110,54 @@ export class MongoDBService {
   }
 
   /**
-   * Fetch documents in batches
+   * Get another collection of the same database (pipeline state, checkpoints)
+   */
+  getNamedCollection<T extends Document = Document>(name: string): Collection<T> {
+    if (!this.db) {
+      throw new Error('Not connected to MongoDB. Call connect() first.');
+    }
+    return this.db.collection<T>(name);
+  }
+
+  /**
+   * Record every document written through updateDocument in the ledger,
+   * so the change stream watcher ignores the pipeline's own writes
+   */
+  setWriteLedger(writeLedger: WriteLedger): void {
+    this.writeLedger = writeLedger;
+  }
+
+  /**
+   * Open a change stream on inserts, replaces and updates, with the full
+   * document looked up for updates. Resumes after the token when given.
+   */
+  watchChanges(resumeAfter?: ResumeToken): ChangeStream<Document, ChangeStreamDocument<Document>> {
+    return this.getCollection().watch(
+      [{ $match: { operationType: { $in: ['insert', 'replace', 'update'] } } }],
+      {
+        fullDocument: 'updateLookup',
+        ...(resumeAfter !== undefined && { resumeAfter }),
+      }
+    );
+  }
+
+  /**
+   * Fetch documents in batches, in _id order so a scan can be resumed
+   * after the last processed _id
    */
-  async *fetchDocumentsBatch(batchSize: number): AsyncGenerator<Document[], void, unknown> {
+  async *fetchDocumentsBatch(
+    batchSize: number,
+    options: FetchOptions = {}
+  ): AsyncGenerator<Document[], void, unknown> {
     const collection = this.getCollection();
 
     try {
-      const cursor = collection.find({});
+      const clauses: Filter<Document>[] = [
+        ...(options.filter && Object.keys(options.filter).length > 0 ? [options.filter] : []),
+        ...(options.afterId !== undefined ? [{ _id: { $gt: options.afterId } }] : []),
+      ];
+      const query = clauses.length > 1 ? { $and: clauses } : clauses[0] || {};
+      const cursor = collection.find(query).sort({ _id: 1 });
       let batch: Document[] = [];
       let skippedCount = 0;
 
@@ -139,10 +209,10 @@ export class MongoDBService {
   /**
    * Get total document count
    */
-  async getDocumentCount(): Promise<number> {
+  async getDocumentCount(filter: Filter<Document> = {}): Promise<number> {
     const collection = this.getCollection();
     try {
-      const count = await collection.countDocuments();
+      const count = await collection.countDocuments(filter);
       logger.debug('Document count retrieved', { count });
       return count;
     } catch (error) {
@@ -153,6 +223,22 @@ export class MongoDBService {
     }
   }
 
+  /**
+   * Distinct values of a field (array fields contribute their elements)
+   */
+  async getDistinctValues(field: string): Promise<unknown[]> {
+    const collection = this.getCollection();
+    try {
+      return await collection.distinct(field);
+    } catch (error) {
+      logger.error('Error getting distinct values', {
+        field,
+        error: (error as Error).message,
+      });
+      throw error;
+    }
+  }
+
   /**
    * Find document by ID
    */
@@ -185,6 +271,9 @@ export class MongoDBService {
       // Remove _id from the corrected document to avoid immutable field error
       const { _id, ...documentWithoutId } = correctedDocument as any;
 
+      // Recorded before the write so the watcher never sees the event first
+      await this.writeLedger?.record(documentId, documentWithoutId);
+
       // Use findOneAndReplace with upsert: false to ensure NO new documents are created
       const result = await collection.findOneAndReplace(
         { _id: new ObjectId(documentId) },
@@ -218,6 +307,60 @@ export class MongoDBService {
     }
   }
 
+  /**
+   * Get the validator currently installed on the collection
+   */
+  async getCollectionValidator(): Promise<CollectionValidatorOptions> {
+    if (!this.db) {
+      throw new Error('Not connected to MongoDB. Call connect() first.');
+    }
+
+    const [info] = await this.db
+      .listCollections({ name: this.config.collection }, { nameOnly: false })
+      .toArray();
+
+    if (!info) {
+      throw new Error(`Collection "${this.config.collection}" does not exist`);
+    }
+
+    const options = (info as { options?: CollectionValidatorOptions }).options || {};
+    return {
+      validator: options.validator,
+      validationLevel: options.validationLevel,
+      validationAction: options.validationAction,
+    };
+  }
+
+  /**
+   * Install a validator on the collection with collMod
+   */
+  async setCollectionValidator(options: Required<CollectionValidatorOptions>): Promise<void> {
+    if (!this.db) {
+      throw new Error('Not connected to MongoDB. Call connect() first.');
+    }
+
+    try {
+      await this.db.command({
+        collMod: this.config.collection,
+        validator: options.validator,
+        validationLevel: options.validationLevel,
+        validationAction: options.validationAction,
+      });
+
+      logger.info('Collection validator applied', {
+        collection: this.config.collection,
+        validationLevel: options.validationLevel,
+        validationAction: options.validationAction,
+      });
+    } catch (error) {
+      logger.error('Failed to apply collection validator', {
+        collection: this.config.collection,
+        error: (error as Error).message,
+      });
+      throw error;
+    }
+  }
+
   /**
    * Check if collection is empty
    */
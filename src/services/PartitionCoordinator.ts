@@ -0,0 +1,298 @@
+import { Document, Filter, MongoServerError, ObjectId } from 'mongodb';
+import { PartitionConfig } from '../config/partition.config';
+import { MongoDBService } from './MongoDBService';
+import { logger } from '../utils/Logger';
+
+/**
+ * Status of one _id range
+ */
+export type PartitionStatus = 'pending' | 'claimed' | 'done' | 'failed';
+
+/**
+ * One _id range of a partitioned scan. Bounds are raw _id values:
+ * minId inclusive, maxId exclusive, open when missing.
+ */
+export interface ScanPartition {
+  _id: string; // "<planId>#<index>"
+  scope: string; // "<database>.<collection>"; plans live in the same collection
+  planId: string;
+  index: number;
+  minId?: any;
+  maxId?: any;
+  status: PartitionStatus;
+  attempts: number;
+  owner?: string;
+  leaseExpiresAt?: Date;
+  stats?: Record<string, any>; // ScanStats as JSON, once done
+  lastError?: string;
+}
+
+/**
+ * The partitioned scan running on a collection; every scanner process
+ * started while it is running joins it
+ */
+interface ScanPlan {
+  _id: string; // "<database>.<collection>"
+  planId: string;
+  status: 'running' | 'completed';
+  partitionCount: number;
+  filter?: string; // Extended JSON of the scan filter
+  createdAt: Date;
+  completedAt?: Date;
+}
+
+/**
+ * Partition progress of a plan
+ */
+export interface PlanProgress {
+  total: number;
+  pending: number;
+  claimed: number;
+  done: number;
+  failed: number; // Out of attempts, including expired claims on the last attempt
+}
+
+/**
+ * Partition Coordinator - Splits a collection's _id space into ranges and
+ * hands them out to scanner workers, in any number of processes, through a
+ * MongoDB collection. Claims are atomic and leased: a range is scanned by
+ * one worker at a time, and the range of a crashed worker is handed out
+ * again once its lease expires.
+ */
+export class PartitionCoordinator {
+  private mongoService: MongoDBService;
+  private config: PartitionConfig;
+
+  constructor(mongoService: MongoDBService, config: PartitionConfig) {
+    this.mongoService = mongoService;
+    this.config = config;
+  }
+
+  /**
+   * Join the running plan of the collection, or split it into
+   * `partitionCount` ranges of about the same size
+   */
+  async createOrJoinPlan(
+    partitionCount: number,
+    filter: Filter<Document> = {},
+    filterDescription?: string
+  ): Promise<string> {
+    const scope = this.scope();
+
+    const running = await this.plans().findOne({ _id: scope, status: 'running' });
+    if (running) {
+      return this.join(running, filterDescription);
+    }
+
+    // Write the partitions first, so a plan is never visible without them
+    const planId = new ObjectId().toHexString();
+    const bounds = await this.splitIdSpace(partitionCount, filter);
+    await this.partitions().insertMany(
+      bounds.map((range, index) => ({
+        _id: `${planId}#${index}`,
+        scope,
+        planId,
+        index,
+        ...range,
+        status: 'pending' as PartitionStatus,
+        attempts: 0,
+      }))
+    );
+
+    try {
+      await this.plans().replaceOne(
+        { _id: scope, status: { $ne: 'running' } },
+        {
+          planId,
+          status: 'running',
+          partitionCount: bounds.length,
+          ...(filterDescription && { filter: filterDescription }),
+          createdAt: new Date(),
+        },
+        { upsert: true }
+      );
+    } catch (error) {
+      // Another process created a plan at the same time: use theirs
+      await this.partitions().deleteMany({ planId });
+      if (error instanceof MongoServerError && error.code === 11000) {
+        const winner = await this.plans().findOne({ _id: scope, status: 'running' });
+        if (winner) {
+          return this.join(winner, filterDescription);
+        }
+      }
+      throw error;
+    }
+
+    // Ranges of earlier plans are no longer needed
+    await this.partitions().deleteMany({ scope, planId: { $ne: planId } });
+    logger.info('Partitioned scan planned', { scope, planId, partitions: bounds.length });
+    return planId;
+  }
+
+  /**
+   * Claim the next free range: pending, failed with attempts left, or
+   * claimed by a worker whose lease expired
+   */
+  async claim(planId: string, owner: string): Promise<ScanPartition | null> {
+    const now = new Date();
+    return this.partitions().findOneAndUpdate(
+      {
+        scope: this.scope(),
+        planId,
+        attempts: { $lt: this.config.maxAttempts },
+        $or: [
+          { status: { $in: ['pending', 'failed'] } },
+          { status: 'claimed', leaseExpiresAt: { $lt: now } },
+        ],
+      },
+      {
+        $set: {
+          status: 'claimed',
+          owner,
+          leaseExpiresAt: new Date(now.getTime() + this.config.leaseMs),
+        },
+        $inc: { attempts: 1 },
+      },
+      { sort: { index: 1 }, returnDocument: 'after' }
+    );
+  }
+
+  /**
+   * Extend the lease of a claimed range; false when another worker took it over
+   */
+  async renew(partition: ScanPartition, owner: string): Promise<boolean> {
+    const result = await this.partitions().updateOne(
+      { _id: partition._id, status: 'claimed', owner },
+      { $set: { leaseExpiresAt: new Date(Date.now() + this.config.leaseMs) } }
+    );
+    return result.matchedCount > 0;
+  }
+
+  async complete(
+    partition: ScanPartition,
+    owner: string,
+    stats: Record<string, any>
+  ): Promise<void> {
+    await this.partitions().updateOne(
+      { _id: partition._id, owner },
+      { $set: { status: 'done', stats }, $unset: { leaseExpiresAt: '', lastError: '' } }
+    );
+  }
+
+  async fail(partition: ScanPartition, owner: string, error: Error): Promise<void> {
+    await this.partitions().updateOne(
+      { _id: partition._id, owner },
+      { $set: { status: 'failed', lastError: error.message }, $unset: { leaseExpiresAt: '' } }
+    );
+  }
+
+  async getProgress(planId: string): Promise<PlanProgress> {
+    const partitions = await this.partitions().find({ scope: this.scope(), planId }).toArray();
+    const count = (predicate: (partition: ScanPartition) => boolean) =>
+      partitions.filter(predicate).length;
+    const now = new Date();
+    const outOfAttempts = (p: ScanPartition) => p.attempts >= this.config.maxAttempts;
+    // A worker that died on the last attempt leaves a claim nobody can take over
+    const abandoned = (p: ScanPartition) =>
+      p.status === 'claimed' && outOfAttempts(p) && !!p.leaseExpiresAt && p.leaseExpiresAt < now;
+
+    return {
+      total: partitions.length,
+      pending: count((p) => p.status === 'pending' || (p.status === 'failed' && !outOfAttempts(p))),
+      claimed: count((p) => p.status === 'claimed' && !abandoned(p)),
+      done: count((p) => p.status === 'done'),
+      failed: count((p) => (p.status === 'failed' && outOfAttempts(p)) || abandoned(p)),
+    };
+  }
+
+  /**
+   * Statistics of the finished ranges, in range order
+   */
+  async getPartitionStats(planId: string): Promise<Record<string, any>[]> {
+    const partitions = await this.partitions()
+      .find({ scope: this.scope(), planId, status: 'done' })
+      .sort({ index: 1 })
+      .toArray();
+    return partitions.map((partition) => partition.stats || {});
+  }
+
+  /**
+   * Close the plan so the next partitioned scan starts a new one
+   */
+  async completePlan(planId: string): Promise<void> {
+    await this.plans().updateOne(
+      { _id: this.scope(), planId },
+      { $set: { status: 'completed', completedAt: new Date() } }
+    );
+  }
+
+  /**
+   * Filter selecting the documents of a range
+   */
+  static rangeFilter(partition: ScanPartition): Filter<Document> {
+    const range: Document = {};
+    if (partition.minId !== undefined) {
+      range.$gte = partition.minId;
+    }
+    if (partition.maxId !== undefined) {
+      range.$lt = partition.maxId;
+    }
+    return Object.keys(range).length > 0 ? { _id: range } : {};
+  }
+
+  private join(plan: ScanPlan, filterDescription?: string): string {
+    if (plan.filter !== filterDescription) {
+      throw new Error(
+        `The running partitioned scan uses a different filter (${plan.filter || 'none'}); ` +
+          'start this scanner with the same filter options to join it'
+      );
+    }
+    logger.info('Joining running partitioned scan', {
+      planId: plan.planId,
+      partitions: plan.partitionCount,
+      startedAt: plan.createdAt,
+    });
+    return plan.planId;
+  }
+
+  /**
+   * Range boundaries from $bucketAuto; the first and last range are open so
+   * documents inserted during the scan still fall into one
+   */
+  private async splitIdSpace(
+    partitionCount: number,
+    filter: Filter<Document>
+  ): Promise<Array<{ minId?: any; maxId?: any }>> {
+    if (partitionCount <= 1) {
+      return [{}];
+    }
+
+    const buckets = await this.mongoService
+      .getCollection()
+      .aggregate<{ _id: { min: any; max: any } }>([
+        { $match: filter },
+        { $bucketAuto: { groupBy: '$_id', buckets: partitionCount } },
+      ])
+      .toArray();
+    if (buckets.length <= 1) {
+      return [{}];
+    }
+
+    return buckets.map((bucket, index) => ({
+      ...(index > 0 && { minId: bucket._id.min }),
+      ...(index < buckets.length - 1 && { maxId: buckets[index + 1]._id.min }),
+    }));
+  }
+
+  private scope(): string {
+    return this.mongoService.getCollection().namespace;
+  }
+
+  private plans() {
+    return this.mongoService.getNamedCollection<ScanPlan>(this.config.collection);
+  }
+
+  private partitions() {
+    return this.mongoService.getNamedCollection<ScanPartition>(this.config.collection);
+  }
+}
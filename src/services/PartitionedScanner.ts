@@ -0,0 +1,158 @@
+import os from 'os';
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { Document, Filter } from 'mongodb';
+import { PartitionConfig } from '../config/partition.config';
+import { MongoDBService } from './MongoDBService';
+import { PartitionCoordinator, PlanProgress } from './PartitionCoordinator';
+import { ScanStats, mergeScanStats } from './ScannerService';
+import { ValidationSeverity } from '../models/ValidationError';
+import { ScanFilter } from '../utils/ScanFilter';
+import { logger } from '../utils/Logger';
+
+/**
+ * Settings passed to each scan worker thread
+ */
+export interface ScanWorkerData {
+  planId: string;
+  owner: string; // "<host>:<pid>:<worker>", recorded on claimed ranges
+  queueThreshold: ValidationSeverity;
+  disabledSteps: string[];
+  applyFixes: boolean;
+  forceRequeue: boolean;
+  filter?: string; // Extended JSON of the scan filter
+}
+
+/**
+ * What a scan worker thread reports when it runs out of ranges
+ */
+export interface ScanWorkerResult {
+  partitions: number; // Ranges scanned
+  failed: number;
+}
+
+/**
+ * Options for one partitioned scan
+ */
+export interface PartitionedScanOptions {
+  workers: number;
+  queueThreshold: ValidationSeverity;
+  disabledSteps: string[];
+  applyFixes?: boolean;
+  forceRequeue?: boolean;
+  filter?: Filter<Document>;
+}
+
+/**
+ * Outcome of this process's part in a partitioned scan
+ */
+export interface PartitionedScanResult {
+  planId: string;
+  progress: PlanProgress;
+  // Merged statistics of every range; only set by the process that sees the plan finish
+  stats?: ScanStats;
+}
+
+/**
+ * Partitioned Scanner - Runs a scan as worker threads that each claim _id
+ * ranges from the PartitionCoordinator. More scanner processes, on this or
+ * other hosts, join the same plan; whichever sees the last range finish
+ * merges the statistics and closes the plan.
+ */
+export class PartitionedScanner {
+  private config: PartitionConfig;
+  private coordinator: PartitionCoordinator;
+
+  constructor(mongoService: MongoDBService, config: PartitionConfig) {
+    this.config = config;
+    this.coordinator = new PartitionCoordinator(mongoService, config);
+  }
+
+  async run(options: PartitionedScanOptions): Promise<PartitionedScanResult> {
+    const filter = options.filter || {};
+    const filterDescription =
+      Object.keys(filter).length > 0 ? ScanFilter.describe(filter) : undefined;
+
+    const planId = await this.coordinator.createOrJoinPlan(
+      options.workers * this.config.partitionsPerWorker,
+      filter,
+      filterDescription
+    );
+
+    logger.info('Starting scan workers', { planId, workers: options.workers });
+    const settled = await Promise.allSettled(
+      Array.from({ length: options.workers }, (_, index) =>
+        this.runWorker({
+          planId,
+          owner: `${os.hostname()}:${process.pid}:${index}`,
+          queueThreshold: options.queueThreshold,
+          disabledSteps: options.disabledSteps,
+          applyFixes: !!options.applyFixes,
+          forceRequeue: !!options.forceRequeue,
+          ...(filterDescription && { filter: filterDescription }),
+        })
+      )
+    );
+
+    // Ranges of a crashed worker are handed out again once their lease expires
+    const results: ScanWorkerResult[] = [];
+    settled.forEach((outcome) => {
+      if (outcome.status === 'fulfilled') {
+        results.push(outcome.value);
+      } else {
+        logger.error('Scan worker crashed', { error: (outcome.reason as Error).message });
+      }
+    });
+    logger.info('Scan workers finished', {
+      planId,
+      partitionsScanned: results.reduce((sum, result) => sum + result.partitions, 0),
+      partitionsFailed: results.reduce((sum, result) => sum + result.failed, 0),
+    });
+
+    const progress = await this.coordinator.getProgress(planId);
+    if (progress.pending > 0 || progress.claimed > 0) {
+      logger.info('Other scanner processes are still scanning ranges of this plan', {
+        planId,
+        ...progress,
+      });
+      return { planId, progress };
+    }
+
+    // Every range is done or out of attempts
+    const stats = mergeScanStats(await this.coordinator.getPartitionStats(planId));
+    await this.coordinator.completePlan(planId);
+    if (progress.failed > 0) {
+      logger.error('Some ranges could not be scanned', { planId, failed: progress.failed });
+    }
+    return { planId, progress, stats };
+  }
+
+  /**
+   * Run one worker thread; ts-node runs transpile-only in workers, since
+   * the main thread has already type-checked the sources
+   */
+  private runWorker(data: ScanWorkerData): Promise<ScanWorkerResult> {
+    const extension = path.extname(__filename);
+    const workerFile = path.resolve(__dirname, '..', `scanWorker${extension}`);
+
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(workerFile, {
+        workerData: data,
+        execArgv: extension === '.ts' ? ['--require', 'ts-node/register/transpile-only'] : undefined,
+      });
+      let result: ScanWorkerResult | undefined;
+
+      worker.on('message', (message: ScanWorkerResult) => {
+        result = message;
+      });
+      worker.on('error', reject);
+      worker.on('exit', (code) => {
+        if (result) {
+          resolve(result);
+        } else {
+          reject(new Error(`Scan worker ${data.owner} exited with code ${code}`));
+        }
+      });
+    });
+  }
+}
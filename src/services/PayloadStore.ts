@@ -0,0 +1,128 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { PayloadConfig } from '../config/payload.config';
+import { MongoDBService } from './MongoDBService';
+import { logger } from '../utils/Logger';
+
+/**
+ * Payload Store - Holds message bodies too large for the queue; the queue
+ * message carries only the reference returned by `put`
+ */
+export interface PayloadStore {
+  put(payload: string, documentId: string): Promise<string>;
+  get(ref: string): Promise<string>; // Throws when the payload is missing
+  delete(ref: string): Promise<void>;
+}
+
+/**
+ * When and where QueueService stores payloads instead of sending them
+ */
+export interface ClaimCheckOptions {
+  store: PayloadStore;
+  always: boolean; // Otherwise only bodies above thresholdBytes
+  thresholdBytes: number;
+}
+
+/**
+ * Keeps each payload in a JSON file of a local (or shared) directory
+ */
+export class FilePayloadStore implements PayloadStore {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async put(payload: string): Promise<string> {
+    const ref = crypto.randomUUID();
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.filePath(ref), payload, 'utf-8');
+    return ref;
+  }
+
+  async get(ref: string): Promise<string> {
+    try {
+      return await fs.readFile(this.filePath(ref), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`Payload ${ref} not found`);
+      }
+      throw error;
+    }
+  }
+
+  async delete(ref: string): Promise<void> {
+    await fs.rm(this.filePath(ref), { force: true });
+  }
+
+  private filePath(ref: string): string {
+    // References are UUIDs; anything else must not escape the directory
+    return path.join(this.directory, `${path.basename(ref)}.json`);
+  }
+}
+
+/**
+ * Keeps payloads in a MongoDB collection, one document per payload
+ */
+export class MongoPayloadStore implements PayloadStore {
+  private mongoService: MongoDBService;
+  private collectionName: string;
+
+  constructor(mongoService: MongoDBService, collectionName: string) {
+    this.mongoService = mongoService;
+    this.collectionName = collectionName;
+  }
+
+  async put(payload: string, documentId: string): Promise<string> {
+    const ref = crypto.randomUUID();
+    await this.collection().insertOne({ _id: ref, documentId, payload, createdAt: new Date() });
+    return ref;
+  }
+
+  async get(ref: string): Promise<string> {
+    const document = await this.collection().findOne({ _id: ref });
+    if (!document) {
+      throw new Error(`Payload ${ref} not found`);
+    }
+    return document.payload;
+  }
+
+  async delete(ref: string): Promise<void> {
+    await this.collection().deleteOne({ _id: ref });
+  }
+
+  private collection() {
+    return this.mongoService.getNamedCollection<{
+      _id: string;
+      documentId: string;
+      payload: string;
+      createdAt: Date;
+    }>(this.collectionName);
+  }
+}
+
+/**
+ * Create the configured claim check; undefined when the payload store is off
+ */
+export function createClaimCheck(
+  config: PayloadConfig,
+  mongoService?: MongoDBService
+): ClaimCheckOptions | undefined {
+  let store: PayloadStore;
+  switch (config.store) {
+    case 'file':
+      store = new FilePayloadStore(config.directory);
+      break;
+    case 'mongo':
+      if (!mongoService) {
+        throw new Error('The mongo payload store requires a MongoDB connection');
+      }
+      store = new MongoPayloadStore(mongoService, config.collection);
+      break;
+    default:
+      logger.info('Claim-check payloads disabled');
+      return undefined;
+  }
+  return { store, always: config.mode === 'always', thresholdBytes: config.thresholdBytes };
+}
@@ -0,0 +1,161 @@
+import { MongoServerError } from 'mongodb';
+import { ProcessingConfig } from '../config/processing.config';
+import { MongoDBService } from './MongoDBService';
+import { logger } from '../utils/Logger';
+
+/**
+ * Where a document is in the correction pipeline
+ */
+export type ProcessingStatus = 'queued' | 'in-progress' | 'corrected' | 'failed';
+
+/**
+ * Processing state of one document
+ */
+export interface ProcessingState {
+  _id: string; // Document id
+  status: ProcessingStatus;
+  messageId?: string; // Queue message of the current correction
+  attempts: number; // Times the consumer started a correction
+  queuedAt?: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  updatedAt: Date;
+  lastError?: string;
+}
+
+const PENDING: ProcessingStatus[] = ['queued', 'in-progress'];
+
+/**
+ * Processing State Service - Tracks each document through the correction
+ * pipeline so the scanner does not queue a document that is already waiting
+ * for or undergoing correction. Pending records older than the configured
+ * age are treated as lost and no longer block re-queueing.
+ */
+export class ProcessingStateService {
+  private mongoService: MongoDBService;
+  private config: ProcessingConfig;
+
+  constructor(mongoService: MongoDBService, config: ProcessingConfig) {
+    this.mongoService = mongoService;
+    this.config = config;
+  }
+
+  async get(documentId: string): Promise<ProcessingState | null> {
+    return this.collection().findOne({ _id: documentId });
+  }
+
+  /**
+   * Atomically mark a document as queued unless its correction is already
+   * pending; false when another scan queued it first. `force` reserves anyway.
+   */
+  async reserve(documentId: string, force: boolean = false): Promise<boolean> {
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - this.config.staleAfterMs);
+
+    try {
+      await this.collection().updateOne(
+        force
+          ? { _id: documentId }
+          : {
+              _id: documentId,
+              $or: [{ status: { $nin: PENDING } }, { updatedAt: { $lt: staleBefore } }],
+            },
+        {
+          $set: { status: 'queued', queuedAt: now, updatedAt: now },
+          $unset: { messageId: '', startedAt: '', finishedAt: '', lastError: '' },
+          $setOnInsert: { attempts: 0 },
+        },
+        { upsert: true }
+      );
+      return true;
+    } catch (error) {
+      // The upsert collides with the pending record it did not match
+      if (error instanceof MongoServerError && error.code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Record the queue message of a reserved document
+   */
+  async markQueued(documentId: string, messageId: string): Promise<void> {
+    await this.update(documentId, { status: 'queued', messageId });
+  }
+
+  async markInProgress(documentId: string, messageId?: string): Promise<void> {
+    await this.update(
+      documentId,
+      { status: 'in-progress', startedAt: new Date(), ...(messageId && { messageId }) },
+      { attempts: 1 }
+    );
+  }
+
+  async markCorrected(documentId: string): Promise<void> {
+    await this.update(documentId, { status: 'corrected', finishedAt: new Date() });
+  }
+
+  /**
+   * Record a failed attempt: `final` when no retry will follow, otherwise
+   * the document stays queued for the retry
+   */
+  async markFailed(documentId: string, error: string, final: boolean): Promise<void> {
+    await this.update(documentId, {
+      status: final ? 'failed' : 'queued',
+      lastError: error,
+      ...(final && { finishedAt: new Date() }),
+    });
+  }
+
+  /**
+   * Documents per status
+   */
+  async getCounts(): Promise<Record<ProcessingStatus, number>> {
+    const counts: Record<ProcessingStatus, number> = {
+      queued: 0,
+      'in-progress': 0,
+      corrected: 0,
+      failed: 0,
+    };
+    const groups = await this.collection()
+      .aggregate<{ _id: ProcessingStatus; count: number }>([
+        { $group: { _id: '$status', count: { $sum: 1 } } },
+      ])
+      .toArray();
+    groups.forEach((group) => {
+      counts[group._id] = group.count;
+    });
+    return counts;
+  }
+
+  private async update(
+    documentId: string,
+    fields: Partial<ProcessingState>,
+    increments: Partial<Record<'attempts', number>> = {}
+  ): Promise<void> {
+    try {
+      await this.collection().updateOne(
+        { _id: documentId },
+        {
+          $set: { ...fields, updatedAt: new Date() },
+          ...(Object.keys(increments).length > 0
+            ? { $inc: increments }
+            : { $setOnInsert: { attempts: 0 } }),
+        },
+        { upsert: true }
+      );
+    } catch (error) {
+      // State is bookkeeping: a failed write must not fail the correction
+      logger.error('Failed to update processing state', {
+        documentId,
+        status: fields.status,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  private collection() {
+    return this.mongoService.getNamedCollection<ProcessingState>(this.config.stateCollection);
+  }
+}
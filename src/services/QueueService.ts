@@ -1,99 +1,119 @@
-import {
-  SQSClient,
-  SendMessageCommand,
-  ReceiveMessageCommand,
-  DeleteMessageCommand,
-  GetQueueAttributesCommand,
-  ChangeMessageVisibilityCommand,
-  Message,
-} from '@aws-sdk/client-sqs';
 import { QueueConfig } from '../config/queue.config';
-import { QueueMessage, QueueStats } from '../models/QueueMessage';
+import {
+  ClaimCheckReference,
+  QueueMessage,
+  QueueStats,
+  WorkerStats,
+} from '../models/QueueMessage';
 import { logger } from '../utils/Logger';
+import { ClaimCheckOptions } from './PayloadStore';
+import { createQueueBackend, DeadLetterQueue, QueueBackend, ReceivedMessage } from './queue';
 
 /**
- * Queue Service using AWS SQS
+ * Pause after a failed receive before polling again
+ */
+const POLL_ERROR_DELAY_MS = 1000;
+
+/**
+ * Queue Service - Sends correction jobs and runs workers on the configured
+ * backend (AWS SQS, in-process memory or a MongoDB collection)
  */
 export class QueueService {
-  private client: SQSClient;
+  private backend: QueueBackend;
+  private deadLetterQueue?: DeadLetterQueue;
+  private claimCheck?: ClaimCheckOptions;
   private config: QueueConfig;
   private isPolling: boolean = false;
-  private pollingInterval?: NodeJS.Timeout;
+  private pollLoopRunning: boolean = false;
+  private slotFreed?: () => void;
+  private workerStats: WorkerStats;
   private messageHandlers: Map<string, (message: QueueMessage) => Promise<void>> = new Map();
 
-  constructor(config: QueueConfig) {
+  constructor(
+    config: QueueConfig,
+    backend: QueueBackend = createQueueBackend(config),
+    deadLetterQueue?: DeadLetterQueue,
+    claimCheck?: ClaimCheckOptions
+  ) {
     this.config = config;
-
-    // Create SQS client
-    const clientConfig: any = {
-      region: config.region,
+    this.backend = backend;
+    this.deadLetterQueue = deadLetterQueue;
+    this.claimCheck = claimCheck;
+    this.workerStats = {
+      concurrency: config.concurrency,
+      inFlight: 0,
+      peakInFlight: 0,
+      succeeded: 0,
+      retried: 0,
+      deadLettered: 0,
+      visibilityExtensions: 0,
+      overdue: 0,
     };
 
-    // Add endpoint for LocalStack
-    if (config.endpoint) {
-      clientConfig.endpoint = config.endpoint;
-      // For LocalStack, we need to set credentials
-      clientConfig.credentials = {
-        accessKeyId: 'test',
-        secretAccessKey: 'test',
-      };
-    }
-
-    this.client = new SQSClient(clientConfig);
-
-    logger.info('SQS Queue service initialized', {
-      queueUrl: config.queueUrl,
-      region: config.region,
-      endpoint: config.endpoint,
+    logger.info('Queue service initialized', {
+      backend: backend.name,
+      deadLetterQueue: !!deadLetterQueue,
+      claimCheck: claimCheck ? (claimCheck.always ? 'always' : 'auto') : 'off',
     });
   }
 
   /**
-   * Add job to queue
+   * Add job to queue. With a claim check, the message is stored in the
+   * payload store and only its reference is sent (always, or when the body
+   * is above the threshold).
    */
   async addJob(message: QueueMessage, options?: { delaySeconds?: number }): Promise<string> {
+    let body = JSON.stringify(message);
+    let payloadRef: string | undefined;
+
     try {
-      const command = new SendMessageCommand({
-        QueueUrl: this.config.queueUrl,
-        MessageBody: JSON.stringify(message),
-        DelaySeconds: options?.delaySeconds || 0,
-        MessageAttributes: {
-          documentId: {
-            DataType: 'String',
-            StringValue: message.documentId,
-          },
-          questionId: {
-            DataType: 'String',
-            StringValue: message.failedDocument.question_id || 'unknown',
-          },
-          attemptNumber: {
-            DataType: 'Number',
-            StringValue: '0',
-          },
+      const size = Buffer.byteLength(body, 'utf-8');
+      if (this.claimCheck && (this.claimCheck.always || size > this.claimCheck.thresholdBytes)) {
+        payloadRef = await this.claimCheck.store.put(body, message.documentId);
+        const reference: ClaimCheckReference = {
+          documentId: message.documentId,
+          payloadRef,
+          timestamp: message.timestamp,
+          retryCount: message.retryCount,
+        };
+        body = JSON.stringify(reference);
+        logger.debug('Message body stored as claim-check payload', {
+          documentId: message.documentId,
+          payloadRef,
+          sizeBytes: size,
+        });
+      }
+
+      const messageId = await this.backend.send(body, {
+        delaySeconds: options?.delaySeconds || 0,
+        attributes: {
+          documentId: message.documentId,
+          questionId: message.failedDocument.question_id || 'unknown',
+          attemptNumber: '0',
         },
       });
 
-      const response = await this.client.send(command);
-
-      logger.info('Message sent to SQS', {
-        messageId: response.MessageId,
+      logger.info('Message sent to queue', {
+        messageId,
         documentId: message.documentId,
         questionId: message.failedDocument.question_id,
+        ...(payloadRef && { payloadRef }),
       });
 
-      return response.MessageId || 'unknown';
+      return messageId;
     } catch (error) {
-      logger.error('Failed to send message to SQS', {
+      logger.error('Failed to send message to queue', {
         documentId: message.documentId,
         error: (error as Error).message,
       });
+      await this.releasePayload(payloadRef);
       throw error;
     }
   }
 
   /**
    * Create worker to process jobs
-   * For SQS, this starts a polling loop
+   * This starts a polling loop on the backend
    */
   createWorker(processor: (message: QueueMessage) => Promise<void>): void {
     const workerId = Date.now().toString();
@@ -119,117 +139,180 @@ export class QueueService {
     }
 
     this.isPolling = true;
-    logger.info('Starting SQS polling');
+    logger.info('Starting queue polling', {
+      backend: this.backend.name,
+      concurrency: this.config.concurrency,
+    });
 
-    // Poll continuously
-    this.pollMessages();
+    // A loop paused while waiting for a slot picks up again by itself
+    if (!this.pollLoopRunning) {
+      this.pollMessages();
+    }
   }
 
   /**
-   * Poll for messages from SQS
+   * Worker pool loop: keeps up to `concurrency` messages in flight and
+   * receives only as many messages as there are free slots, so messages
+   * are never held (and their visibility timeout spent) while waiting
    */
   private async pollMessages(): Promise<void> {
-    if (!this.isPolling) {
-      return;
-    }
-
-    try {
-      const command = new ReceiveMessageCommand({
-        QueueUrl: this.config.queueUrl,
-        MaxNumberOfMessages: this.config.maxNumberOfMessages,
-        WaitTimeSeconds: this.config.waitTimeSeconds,
-        VisibilityTimeout: this.config.visibilityTimeout,
-        MessageAttributeNames: ['All'],
-        AttributeNames: ['All'],
-      });
+    this.pollLoopRunning = true;
 
-      const response = await this.client.send(command);
-
-      if (response.Messages && response.Messages.length > 0) {
-        logger.debug('Received messages from SQS', {
-          count: response.Messages.length,
+    while (this.isPolling) {
+      const freeSlots = this.config.concurrency - this.workerStats.inFlight;
+      if (freeSlots <= 0) {
+        await new Promise<void>((resolve) => {
+          this.slotFreed = resolve;
         });
+        continue;
+      }
 
-        // Process messages concurrently (up to concurrency limit)
-        const processingPromises = response.Messages.map((message) =>
-          this.processMessage(message)
+      try {
+        const messages = await this.backend.receive(
+          Math.min(freeSlots, this.config.maxNumberOfMessages),
+          this.config.waitTimeSeconds,
+          this.config.visibilityTimeout
         );
 
-        await Promise.allSettled(processingPromises);
+        if (messages.length > 0) {
+          logger.debug('Received messages from queue', {
+            count: messages.length,
+            inFlight: this.workerStats.inFlight,
+          });
+          messages.forEach((message) => this.dispatch(message));
+        }
+      } catch (error) {
+        logger.error('Error polling messages from queue', {
+          error: (error as Error).message,
+        });
+        await new Promise((resolve) => setTimeout(resolve, POLL_ERROR_DELAY_MS));
       }
-    } catch (error) {
-      logger.error('Error polling messages from SQS', {
-        error: (error as Error).message,
-      });
     }
 
-    // Continue polling
-    if (this.isPolling) {
-      setImmediate(() => this.pollMessages());
-    }
+    this.pollLoopRunning = false;
   }
 
   /**
-   * Process a single message
+   * Handle a message in its own slot and wake the loop when it is done
    */
-  private async processMessage(sqsMessage: Message): Promise<void> {
-    if (!sqsMessage.Body || !sqsMessage.ReceiptHandle) {
-      logger.warn('Received message without body or receipt handle');
-      return;
-    }
+  private dispatch(message: ReceivedMessage): void {
+    this.workerStats.inFlight++;
+    this.workerStats.peakInFlight = Math.max(
+      this.workerStats.peakInFlight,
+      this.workerStats.inFlight
+    );
+
+    this.processMessage(message)
+      .catch((error) => {
+        logger.error('Unexpected error processing message', {
+          messageId: message.id,
+          error: (error as Error).message,
+        });
+      })
+      .finally(() => {
+        this.workerStats.inFlight--;
+        const slotFreed = this.slotFreed;
+        this.slotFreed = undefined;
+        slotFreed?.();
+      });
+  }
 
+  /**
+   * Process a single message
+   */
+  private async processMessage(received: ReceivedMessage): Promise<void> {
     let queueMessage: QueueMessage;
-    const receiptHandle = sqsMessage.ReceiptHandle;
+    let payloadRef: string | undefined;
 
     try {
-      queueMessage = JSON.parse(sqsMessage.Body);
+      const parsed = JSON.parse(received.body);
+      if (typeof parsed.payloadRef === 'string') {
+        // Claim-checked message: the document is in the payload store
+        payloadRef = parsed.payloadRef as string;
+        if (!this.claimCheck) {
+          throw new Error(`Message references payload ${payloadRef} but PAYLOAD_STORE is none`);
+        }
+        queueMessage = JSON.parse(await this.claimCheck.store.get(payloadRef));
+      } else {
+        queueMessage = parsed;
+      }
     } catch (error) {
-      logger.error('Failed to parse message body', {
+      logger.error('Failed to read message body', {
         error: (error as Error).message,
-        messageId: sqsMessage.MessageId,
+        messageId: received.id,
+        payloadRef,
       });
-      // Delete invalid message
-      await this.deleteMessage(receiptHandle);
+      // Move invalid message out of the queue
+      await this.deadLetter(
+        received,
+        `Failed to read message body: ${(error as Error).message}`,
+        undefined,
+        payloadRef
+      );
       return;
     }
 
-    const attemptNumber = parseInt(
-      sqsMessage.Attributes?.ApproximateReceiveCount || '1',
-      10
-    );
+    const attemptNumber = received.attempt;
+    // Handlers see how many deliveries came before this one
+    queueMessage.retryCount = attemptNumber - 1;
+
+    // Already out of attempts: an earlier delivery failed to dead-letter it,
+    // so retry that instead of paying for another correction
+    if (attemptNumber > this.config.retryMaxAttempts) {
+      logger.warn('Message delivered after its last attempt, moving it to the dead-letter queue', {
+        messageId: received.id,
+        documentId: queueMessage.documentId,
+        attemptNumber,
+      });
+      await this.deadLetter(
+        received,
+        `Out of attempts after ${this.config.retryMaxAttempts} deliveries`,
+        queueMessage,
+        payloadRef
+      );
+      return;
+    }
 
     logger.info('Processing message', {
-      messageId: sqsMessage.MessageId,
+      messageId: received.id,
       documentId: queueMessage.documentId,
       attemptNumber,
     });
 
     try {
-      // Call all registered message handlers
-      for (const [workerId, handler] of this.messageHandlers) {
-        try {
-          await handler(queueMessage);
-        } catch (error) {
-          logger.error('Message handler failed', {
-            workerId,
-            messageId: sqsMessage.MessageId,
-            documentId: queueMessage.documentId,
-            error: (error as Error).message,
-          });
-          throw error; // Rethrow to trigger retry logic
+      // Call all registered message handlers, keeping the message hidden meanwhile
+      const stopHeartbeat = this.startHeartbeat(received, queueMessage.documentId);
+      try {
+        for (const [workerId, handler] of this.messageHandlers) {
+          try {
+            await handler(queueMessage);
+          } catch (error) {
+            logger.error('Message handler failed', {
+              workerId,
+              messageId: received.id,
+              documentId: queueMessage.documentId,
+              error: (error as Error).message,
+            });
+            throw error; // Rethrow to trigger retry logic
+          }
         }
+      } finally {
+        // Stopped before the ack or retry, so no extension overrides the backoff
+        await stopHeartbeat();
       }
 
-      // Delete message on success
-      await this.deleteMessage(receiptHandle);
+      // Delete message (and its payload) on success
+      await this.deleteMessage(received);
+      await this.releasePayload(payloadRef);
+      this.workerStats.succeeded++;
 
       logger.info('Message processed successfully', {
-        messageId: sqsMessage.MessageId,
+        messageId: received.id,
         documentId: queueMessage.documentId,
       });
     } catch (error) {
       logger.error('Failed to process message', {
-        messageId: sqsMessage.MessageId,
+        messageId: received.id,
         documentId: queueMessage.documentId,
         attemptNumber,
         error: (error as Error).message,
@@ -237,44 +320,162 @@ export class QueueService {
 
       // Check if we've exceeded max attempts
       if (attemptNumber >= this.config.retryMaxAttempts) {
-        logger.error('Max retry attempts reached, deleting message', {
-          messageId: sqsMessage.MessageId,
+        logger.error('Max retry attempts reached', {
+          messageId: received.id,
           documentId: queueMessage.documentId,
           attempts: attemptNumber,
         });
-        await this.deleteMessage(receiptHandle);
+        await this.deadLetter(received, (error as Error).message, queueMessage, payloadRef);
       } else {
-        // Change visibility timeout to implement exponential backoff
+        // Delay the next delivery to implement exponential backoff
         const backoffDelay = Math.min(
-          this.config.retryDelayMs * Math.pow(2, attemptNumber - 1) / 1000,
+          (this.config.retryDelayMs * Math.pow(2, attemptNumber - 1)) / 1000,
           this.config.visibilityTimeout
         );
 
         logger.info('Retrying message with backoff', {
-          messageId: sqsMessage.MessageId,
+          messageId: received.id,
           documentId: queueMessage.documentId,
           attemptNumber,
           backoffSeconds: backoffDelay,
         });
 
-        await this.changeMessageVisibility(receiptHandle, Math.floor(backoffDelay));
+        await this.changeMessageVisibility(received, Math.floor(backoffDelay));
+        this.workerStats.retried++;
       }
     }
   }
 
   /**
-   * Delete message from queue
+   * Extend the visibility of a message every heartbeat interval while it is
+   * handled, so a slow AI correction is not delivered to a second worker.
+   * Gives up after the maximum processing time: the message then becomes
+   * visible again when its last extension runs out. Returns the stop function.
+   */
+  private startHeartbeat(message: ReceivedMessage, documentId: string): () => Promise<void> {
+    const startedAt = Date.now();
+    let pending: Promise<void> = Promise.resolve();
+
+    const timer = setInterval(() => {
+      const elapsedSeconds = Math.round((Date.now() - startedAt) / 1000);
+      if (elapsedSeconds >= this.config.maxProcessingSeconds) {
+        clearInterval(timer);
+        this.workerStats.overdue++;
+        logger.error('Maximum processing time exceeded, no longer extending message visibility', {
+          messageId: message.id,
+          documentId,
+          elapsedSeconds,
+          maxProcessingSeconds: this.config.maxProcessingSeconds,
+          redeliveryInSeconds: this.config.visibilityTimeout,
+        });
+        return;
+      }
+
+      pending = this.backend
+        .extendVisibility(message, this.config.visibilityTimeout)
+        .then(() => {
+          this.workerStats.visibilityExtensions++;
+          logger.debug('Extended message visibility', {
+            messageId: message.id,
+            documentId,
+            elapsedSeconds,
+          });
+        })
+        .catch((error) => {
+          // The next heartbeat tries again; the receipt may also have expired
+          logger.warn('Failed to extend message visibility', {
+            messageId: message.id,
+            documentId,
+            error: (error as Error).message,
+          });
+        });
+    }, this.config.heartbeatIntervalSeconds * 1000);
+
+    return async () => {
+      clearInterval(timer);
+      await pending;
+    };
+  }
+
+  /**
+   * Move a message that will not be retried to the dead-letter queue, or
+   * delete it when there is none. If the dead-letter queue cannot take it,
+   * the message stays in the queue and comes back after the visibility timeout.
    */
-  private async deleteMessage(receiptHandle: string): Promise<void> {
+  private async deadLetter(
+    message: ReceivedMessage,
+    lastError: string,
+    queueMessage?: QueueMessage,
+    payloadRef?: string
+  ): Promise<void> {
+    if (!this.deadLetterQueue) {
+      logger.warn('No dead-letter queue configured, deleting message', {
+        messageId: message.id,
+        documentId: queueMessage?.documentId,
+      });
+      this.workerStats.deadLettered++;
+      await this.deleteMessage(message);
+      await this.releasePayload(payloadRef);
+      return;
+    }
+
     try {
-      const command = new DeleteMessageCommand({
-        QueueUrl: this.config.queueUrl,
-        ReceiptHandle: receiptHandle,
+      const deadLetterId = await this.deadLetterQueue.add({
+        body: message.body,
+        ...(payloadRef && { payloadRef }),
+        sourceMessageId: message.id,
+        documentId: queueMessage?.documentId || message.attributes.documentId,
+        questionId: queueMessage?.failedDocument?.question_id || message.attributes.questionId,
+        lastError,
+        attempts: message.attempt,
+        queuedAt: queueMessage?.timestamp,
+        deadLetteredAt: new Date().toISOString(),
       });
+      logger.warn('Message moved to dead-letter queue', {
+        messageId: message.id,
+        deadLetterId,
+        documentId: queueMessage?.documentId,
+        attempts: message.attempt,
+      });
+    } catch (error) {
+      logger.error('Failed to move message to dead-letter queue', {
+        messageId: message.id,
+        error: (error as Error).message,
+      });
+      return;
+    }
 
-      await this.client.send(command);
+    this.workerStats.deadLettered++;
+    await this.deleteMessage(message);
+  }
+
+  /**
+   * Delete a claim-check payload that is no longer referenced
+   */
+  private async releasePayload(payloadRef?: string): Promise<void> {
+    if (!payloadRef || !this.claimCheck) {
+      return;
+    }
+    try {
+      await this.claimCheck.store.delete(payloadRef);
+    } catch (error) {
+      // An orphaned payload only costs storage
+      logger.error('Failed to delete claim-check payload', {
+        payloadRef,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Delete message from queue
+   */
+  private async deleteMessage(message: ReceivedMessage): Promise<void> {
+    try {
+      await this.backend.ack(message);
     } catch (error) {
       logger.error('Failed to delete message', {
+        messageId: message.id,
         error: (error as Error).message,
       });
       throw error;
@@ -282,51 +483,35 @@ export class QueueService {
   }
 
   /**
-   * Change message visibility timeout
+   * Make a message visible again after a delay
    */
   private async changeMessageVisibility(
-    receiptHandle: string,
-    visibilityTimeout: number
+    message: ReceivedMessage,
+    delaySeconds: number
   ): Promise<void> {
     try {
-      const command = new ChangeMessageVisibilityCommand({
-        QueueUrl: this.config.queueUrl,
-        ReceiptHandle: receiptHandle,
-        VisibilityTimeout: visibilityTimeout,
-      });
-
-      await this.client.send(command);
+      await this.backend.nack(message, delaySeconds);
     } catch (error) {
       logger.error('Failed to change message visibility', {
+        messageId: message.id,
         error: (error as Error).message,
       });
     }
   }
 
+  /**
+   * Get worker pool statistics
+   */
+  getWorkerStats(): WorkerStats {
+    return { ...this.workerStats };
+  }
+
   /**
    * Get queue statistics
    */
   async getStats(): Promise<QueueStats> {
     try {
-      const command = new GetQueueAttributesCommand({
-        QueueUrl: this.config.queueUrl,
-        AttributeNames: [
-          'ApproximateNumberOfMessages',
-          'ApproximateNumberOfMessagesNotVisible',
-          'ApproximateNumberOfMessagesDelayed',
-        ],
-      });
-
-      const response = await this.client.send(command);
-      const attrs = response.Attributes || {};
-
-      return {
-        waiting: parseInt(attrs.ApproximateNumberOfMessages || '0', 10),
-        active: parseInt(attrs.ApproximateNumberOfMessagesNotVisible || '0', 10),
-        completed: 0, // SQS doesn't track completed messages
-        failed: 0, // SQS doesn't track failed messages directly
-        delayed: parseInt(attrs.ApproximateNumberOfMessagesDelayed || '0', 10),
-      };
+      return await this.backend.getStats();
     } catch (error) {
       logger.error('Failed to get queue stats', {
         error: (error as Error).message,
@@ -340,10 +525,6 @@ export class QueueService {
    */
   async pause(): Promise<void> {
     this.isPolling = false;
-    if (this.pollingInterval) {
-      clearInterval(this.pollingInterval);
-      this.pollingInterval = undefined;
-    }
     logger.info('Queue polling paused');
   }
 
@@ -363,11 +544,9 @@ export class QueueService {
   async close(): Promise<void> {
     try {
       this.isPolling = false;
-      if (this.pollingInterval) {
-        clearInterval(this.pollingInterval);
-      }
       this.messageHandlers.clear();
-      this.client.destroy();
+      await this.backend.close();
+      await this.deadLetterQueue?.close();
       logger.info('Queue service closed');
     } catch (error) {
       logger.error('Error closing queue service', {
@@ -378,19 +557,20 @@ export class QueueService {
   }
 
   /**
-   * Clean old jobs (no-op for SQS, as it has built-in message retention)
+   * Clean old jobs (no-op: acknowledged messages are deleted by every backend)
    */
   async clean(grace: number = 86400000): Promise<void> {
-    logger.info('Clean operation not needed for SQS (automatic retention)', {
+    logger.info('Clean operation not needed (acknowledged messages are deleted)', {
+      backend: this.backend.name,
       gracePeriodMs: grace,
     });
   }
 
   /**
-   * Get job by ID (not supported in SQS)
+   * Get job by ID (not supported)
    */
   async getJob(jobId: string): Promise<any> {
-    logger.warn('getJob not supported in SQS', { jobId });
+    logger.warn('getJob not supported', { jobId, backend: this.backend.name });
     return undefined;
   }
 }
@@ -1,23 +1,113 @@
+import { ChangeStream, ChangeStreamDocument, Document, Filter, ResumeToken } from 'mongodb';
 import { MongoDBService } from './MongoDBService';
 import { QueueService } from './QueueService';
+import { UpdaterService } from './UpdaterService';
+import { WriteLedger } from './WriteLedger';
+import { ProcessingStateService } from './ProcessingStateService';
+import { CheckpointStore, WatchCheckpoint, deserializeId, serializeId } from './CheckpointStore';
 import { SchemaValidator } from '../validators/SchemaValidator';
 import { BackupManager } from '../utils/BackupManager';
 import { DocumentNormalizer } from '../utils/DocumentNormalizer';
+import { MigrationRunner } from '../migrations';
+import { DuplicateDetector, DuplicateStats } from '../validators/DuplicateDetector';
+import { DuplicateReportManager } from '../utils/DuplicateReportManager';
+import { DuplicateConfig } from '../config/duplicate.config';
+import { NormalizationConfig } from '../config/normalization.config';
+import { NormalizationChange } from '../models/NormalizationChange';
+import { TagTaxonomy } from '../utils/TagTaxonomy';
+import { ScanFilter } from '../utils/ScanFilter';
 import { logger } from '../utils/Logger';
 import { QueueMessage } from '../models/QueueMessage';
 import { CodingQuestion } from '../models/CodingQuestion';
+import {
+  ValidationError,
+  ValidationResult,
+  ValidationSeverity,
+  getFindingsAtOrAbove,
+} from '../models/ValidationError';
 
 /**
  * Scanner statistics
  */
-interface ScanStats {
+export interface ScanStats {
   totalScanned: number;
   validDocuments: number;
   invalidDocuments: number;
   backedUp: number;
   queued: number;
+  skippedPending: number; // Invalid documents already queued or being corrected
   errors: number;
   skippedCorrupted: number;
+  documentsWithWarnings: number;
+  warnings: number;
+  warningsByRule: Record<string, number>;
+  schemaVersions: Record<string, number>; // Recorded version before migration
+  migrated: number; // Documents migrated in memory before validation
+  normalizedDocuments: number; // Documents changed by the normalization pipeline
+  normalizationChangesByStep: Record<string, number>;
+  fixesApplied: number; // Normalized documents written back (normalize-and-apply mode)
+  fixesFailed: number;
+  tagHistogram: Record<string, number>; // Documents per tag, after synonym mapping
+  unmappedTags: string[]; // Tags not in the tag taxonomy
+  duplicates?: DuplicateStats; // Collection-level check, set when enabled
+  startTime: Date;
+  resumedAt?: Date; // Set when the scan continued from a checkpoint
+  changeEvents?: number; // Watch mode: changed documents received
+  ownWritesSkipped?: number; // Watch mode: changes written by the pipeline itself
+  endTime?: Date;
+}
+
+/**
+ * Options for one scan
+ */
+export interface ScanOptions {
+  // Write deterministic fixes (migrations and normalization) of documents
+  // that are valid afterwards back to MongoDB instead of discarding them
+  applyFixes?: boolean;
+  // Save progress after every `intervalBatches` batches
+  checkpoint?: { store: CheckpointStore; intervalBatches: number };
+  // Continue the unfinished scan saved in the checkpoint store
+  resume?: boolean;
+  // Only scan matching documents (see ScanFilter)
+  filter?: Filter<Document>;
+  // Queue invalid documents even when their correction is already pending
+  forceRequeue?: boolean;
+  // Stop between batches once aborted (a partition worker that lost its lease)
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for watch mode
+ */
+export interface WatchOptions {
+  applyFixes?: boolean; // As in ScanOptions
+  // Persists the change stream position so a restart misses no events
+  tokenStore?: CheckpointStore<WatchCheckpoint> | null;
+  // Recognises the pipeline's own writes so they are not validated again
+  writeLedger?: WriteLedger | null;
+}
+
+/**
+ * MongoDB error code when a resume token has rolled off the oplog
+ */
+const CHANGE_STREAM_HISTORY_LOST = 286;
+
+/**
+ * Watch progress is logged after this many changes
+ */
+const WATCH_PROGRESS_INTERVAL = 100;
+
+/**
+ * Bulk migration statistics
+ */
+interface MigrationStats {
+  targetVersion: number;
+  dryRun: boolean;
+  totalScanned: number;
+  migrated: number;
+  alreadyAtTarget: number;
+  errors: number;
+  schemaVersions: Record<string, number>; // Recorded version before migration
   startTime: Date;
   endTime?: Date;
 }
@@ -31,47 +121,139 @@ export class ScannerService {
   private validator: SchemaValidator;
   private backupManager: BackupManager;
   private batchSize: number;
+  private queueThreshold: ValidationSeverity;
+  private migrationRunner: MigrationRunner = new MigrationRunner();
+  private duplicateConfig?: DuplicateConfig;
+  private duplicateDetector?: DuplicateDetector;
+  private normalizationConfig?: NormalizationConfig;
+  private updaterService?: UpdaterService;
+  private processingState?: ProcessingStateService;
+  private changeStream?: ChangeStream<Document, ChangeStreamDocument<Document>>;
+  private watching = false;
 
   constructor(
     mongoService: MongoDBService,
     queueService: QueueService,
     backupManager: BackupManager,
-    batchSize: number = 100
+    batchSize: number = 100,
+    validator: SchemaValidator = new SchemaValidator(),
+    queueThreshold: ValidationSeverity = 'error',
+    duplicateConfig?: DuplicateConfig,
+    normalizationConfig?: NormalizationConfig,
+    updaterService?: UpdaterService,
+    processingState?: ProcessingStateService
   ) {
     this.mongoService = mongoService;
     this.queueService = queueService;
-    this.validator = new SchemaValidator();
+    this.validator = validator;
     this.backupManager = backupManager;
     this.batchSize = batchSize;
+    this.queueThreshold = queueThreshold;
+    this.duplicateConfig = duplicateConfig;
+    this.normalizationConfig = normalizationConfig;
+    this.updaterService = updaterService;
+    this.processingState = processingState;
   }
 
   /**
    * Scan all documents and queue invalid ones
    */
-  async scanAndQueue(): Promise<ScanStats> {
-    const stats: ScanStats = {
-      totalScanned: 0,
-      validDocuments: 0,
-      invalidDocuments: 0,
-      backedUp: 0,
-      queued: 0,
-      errors: 0,
-      skippedCorrupted: 0,
-      startTime: new Date(),
-    };
+  async scanAndQueue(options: ScanOptions = {}): Promise<ScanStats> {
+    if (options.applyFixes && !this.updaterService) {
+      throw new Error('Applying normalization fixes requires an UpdaterService');
+    }
+
+    const stats = createScanStats();
+
+    // Continue after the last checkpointed _id, or start from the beginning
+    const scope = this.mongoService.getCollection().namespace;
+    const filter = options.filter || {};
+    const filterDescription =
+      Object.keys(filter).length > 0 ? ScanFilter.describe(filter) : undefined;
+    let afterId: any;
+    if (options.checkpoint) {
+      const checkpoint = await options.checkpoint.store.load(scope);
+      if (options.resume && checkpoint?.status === 'running') {
+        if (checkpoint.filter !== filterDescription) {
+          throw new Error(
+            `The unfinished scan used a different filter (${checkpoint.filter || 'none'}); ` +
+              'run it again with the same filter options to resume'
+          );
+        }
+        Object.assign(stats, checkpoint.stats, {
+          startTime: new Date(checkpoint.stats.startTime),
+          resumedAt: new Date(),
+        });
+        afterId = deserializeId(checkpoint.lastProcessedId);
+        logger.info('Resuming scan from checkpoint', {
+          scope,
+          lastProcessedId: checkpoint.lastProcessedId,
+          alreadyScanned: stats.totalScanned,
+          checkpointTime: checkpoint.updatedAt,
+        });
+      } else if (options.resume) {
+        logger.warn('No unfinished scan to resume; starting from the beginning', { scope });
+      } else if (checkpoint?.status === 'running') {
+        logger.warn('Discarding checkpoint of an unfinished scan (use --resume to continue it)', {
+          scope,
+          checkpointTime: checkpoint.updatedAt,
+        });
+      }
+    } else if (options.resume) {
+      throw new Error('Resuming a scan requires a checkpoint store');
+    }
+
+    // Fresh detector per scan; documents are added as they are validated
+    this.duplicateDetector = this.duplicateConfig?.enabled
+      ? new DuplicateDetector(this.duplicateConfig.similarityThreshold)
+      : undefined;
 
     try {
-      logger.info('Starting document scan', { batchSize: this.batchSize });
+      logger.info('Starting document scan', {
+        batchSize: this.batchSize,
+        queueThreshold: this.queueThreshold,
+        duplicateDetection: !!this.duplicateDetector,
+        disabledNormalizationSteps: this.normalizationConfig?.disabledSteps || [],
+        applyFixes: !!options.applyFixes,
+        resumed: !!stats.resumedAt,
+        filter: filterDescription,
+      });
+      if (stats.resumedAt && this.duplicateDetector) {
+        logger.warn('Duplicate detection only covers documents scanned since the resume point');
+      }
+      if (filterDescription && this.duplicateDetector) {
+        logger.warn('Duplicate detection only compares the documents matching the filter');
+      }
 
       // Get total count for progress tracking
-      const totalDocs = await this.mongoService.getDocumentCount();
+      const totalDocs = await this.mongoService.getDocumentCount(filter);
       logger.info('Total documents to scan', { count: totalDocs });
 
-      // Fetch and process documents in batches
-      const batchGenerator = this.mongoService.fetchDocumentsBatch(this.batchSize);
+      // Fetch and process documents in batches, in _id order
+      const batchGenerator = this.mongoService.fetchDocumentsBatch(this.batchSize, {
+        afterId,
+        filter,
+      });
+      let batchCount = 0;
 
       for await (const batch of batchGenerator) {
-        await this.processBatch(batch, stats);
+        options.signal?.throwIfAborted();
+        await this.processBatch(batch, stats, options);
+        batchCount++;
+
+        if (batch.length > 0) {
+          afterId = batch[batch.length - 1]._id;
+        }
+        if (options.checkpoint && batchCount % options.checkpoint.intervalBatches === 0) {
+          await this.saveCheckpoint(
+            options.checkpoint.store,
+            scope,
+            filterDescription,
+            'running',
+            afterId,
+            stats
+          );
+        }
 
         // Log progress
         const progress = ((stats.totalScanned / totalDocs) * 100).toFixed(2);
@@ -84,12 +266,34 @@ export class ScannerService {
         });
       }
 
+      // Collection-level duplicate check once every document has been seen
+      if (this.duplicateDetector) {
+        stats.duplicates = await this.reportDuplicates(this.duplicateDetector);
+      }
+
       stats.endTime = new Date();
+
+      // Close out the run so the next scan starts fresh
+      if (options.checkpoint && afterId !== undefined) {
+        await this.saveCheckpoint(
+          options.checkpoint.store,
+          scope,
+          filterDescription,
+          'completed',
+          afterId,
+          stats
+        );
+      }
+
       this.logFinalStats(stats);
 
       return stats;
     } catch (error) {
       stats.endTime = new Date();
+      if (options.signal?.aborted) {
+        logger.warn('Scan aborted', { reason: (error as Error).message });
+        throw error;
+      }
       logger.error('Scan failed', {
         error: (error as Error).message,
         stats,
@@ -98,16 +302,190 @@ export class ScannerService {
     }
   }
 
+  /**
+   * Validate documents as they change: every insert, replace and update
+   * goes through the same migrate, normalize and validate path as a scan,
+   * and invalid documents are queued immediately. Runs until stopWatching().
+   */
+  async watch(options: WatchOptions = {}): Promise<ScanStats> {
+    if (options.applyFixes && !this.updaterService) {
+      throw new Error('Applying normalization fixes requires an UpdaterService');
+    }
+
+    const stats = createScanStats();
+    stats.changeEvents = 0;
+    stats.ownWritesSkipped = 0;
+
+    const scope = `${this.mongoService.getCollection().namespace}#watch`;
+    const saved = options.tokenStore ? await options.tokenStore.load(scope) : null;
+    let resumeToken: ResumeToken | undefined = saved?.resumeToken;
+
+    // The duplicate check needs the whole collection; scans run it
+    this.duplicateDetector = undefined;
+    this.watching = true;
+
+    logger.info('Watching collection for changes', {
+      scope,
+      queueThreshold: this.queueThreshold,
+      applyFixes: !!options.applyFixes,
+      resumed: !!resumeToken,
+      checkpointTime: saved?.updatedAt,
+      ignoreOwnWrites: !!options.writeLedger,
+    });
+    if (!options.writeLedger) {
+      logger.warn('No write ledger: corrections written by the consumer will be validated again');
+    }
+
+    try {
+      while (this.watching) {
+        this.changeStream = this.mongoService.watchChanges(resumeToken);
+        try {
+          for await (const change of this.changeStream) {
+            await this.processChange(change, stats, options);
+            resumeToken = change._id;
+            await this.saveResumeToken(options.tokenStore, scope, resumeToken);
+          }
+        } catch (error) {
+          if (!this.watching) {
+            break; // Stream closed by stopWatching()
+          }
+          if ((error as any).code === CHANGE_STREAM_HISTORY_LOST && resumeToken) {
+            logger.error(
+              'Resume token is no longer in the oplog; watching from now. Run a full scan to catch up on missed changes',
+              { scope }
+            );
+            resumeToken = undefined;
+            continue;
+          }
+          throw error;
+        }
+      }
+
+      stats.endTime = new Date();
+      this.logFinalStats(stats);
+      return stats;
+    } catch (error) {
+      stats.endTime = new Date();
+      logger.error('Watch failed', {
+        error: (error as Error).message,
+        stats,
+      });
+      throw error;
+    } finally {
+      this.watching = false;
+    }
+  }
+
+  /**
+   * Close the change stream; watch() returns its statistics
+   */
+  async stopWatching(): Promise<void> {
+    this.watching = false;
+    await this.changeStream?.close();
+  }
+
+  /**
+   * Validate the document of one change event, unless the pipeline wrote it
+   */
+  private async processChange(
+    change: ChangeStreamDocument<Document>,
+    stats: ScanStats,
+    options: WatchOptions
+  ): Promise<void> {
+    // Updates of documents deleted before the lookup come without one
+    if (!('fullDocument' in change) || !change.fullDocument) {
+      logger.debug('Change without a current document skipped', {
+        operationType: change.operationType,
+      });
+      return;
+    }
+
+    const document = change.fullDocument;
+    const documentId = document._id?.toString();
+    stats.changeEvents!++;
+
+    if (options.writeLedger) {
+      try {
+        if (await options.writeLedger.claim(documentId, document)) {
+          stats.ownWritesSkipped!++;
+          logger.debug('Skipped change written by the pipeline', {
+            documentId,
+            operationType: change.operationType,
+          });
+          return;
+        }
+      } catch (error) {
+        logger.error('Failed to check write ledger; validating the change', {
+          documentId,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    logger.debug('Validating changed document', {
+      documentId,
+      questionId: document.question_id,
+      operationType: change.operationType,
+    });
+    await this.processBatch([document], stats, { applyFixes: options.applyFixes });
+
+    if (stats.changeEvents! % WATCH_PROGRESS_INTERVAL === 0) {
+      logger.info('Watch progress', {
+        changes: stats.changeEvents,
+        ownWritesSkipped: stats.ownWritesSkipped,
+        valid: stats.validDocuments,
+        invalid: stats.invalidDocuments,
+        queued: stats.queued,
+      });
+    }
+  }
+
+  /**
+   * Save the change stream position; failures are logged so watching continues
+   */
+  private async saveResumeToken(
+    store: CheckpointStore<WatchCheckpoint> | null | undefined,
+    scope: string,
+    resumeToken: ResumeToken
+  ): Promise<void> {
+    if (!store) {
+      return;
+    }
+    try {
+      await store.save({
+        scope,
+        resumeToken: resumeToken as Record<string, any>,
+        updatedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Failed to save change stream resume token', {
+        scope,
+        error: (error as Error).message,
+      });
+    }
+  }
+
   /**
    * Process a batch of documents
    */
-  private async processBatch(batch: any[], stats: ScanStats): Promise<void> {
+  private async processBatch(batch: any[], stats: ScanStats, options: ScanOptions): Promise<void> {
     for (const doc of batch) {
       stats.totalScanned++;
 
       try {
-        // Step 1: Normalize document before validation
-        const normalized = DocumentNormalizer.normalize(doc);
+        // Step 1: Bring the document to the current schema version
+        const migration = this.migrationRunner.migrate(doc);
+        const versionKey = `v${migration.fromVersion}`;
+        stats.schemaVersions[versionKey] = (stats.schemaVersions[versionKey] || 0) + 1;
+        if (migration.applied.length > 0) {
+          stats.migrated++;
+        }
+
+        // Step 2: Normalize document before validation
+        const { document: normalized, changes } = DocumentNormalizer.run(migration.document, {
+          disabledSteps: this.normalizationConfig?.disabledSteps,
+        });
+        this.recordNormalization(changes, stats);
 
         // Validate normalization didn't break critical fields
         if (!DocumentNormalizer.validateNormalization(doc, normalized)) {
@@ -118,19 +496,49 @@ export class ScannerService {
           continue;
         }
 
-        // Step 2: Validate normalized document
-        const validationResult = this.validator.validate(normalized);
+        // Step 3: Validate normalized document (including execution stage when enabled)
+        const validationResult = await this.validator.validateWithExecution(normalized);
+        this.recordWarnings(validationResult, stats);
+        this.recordTags(normalized, stats);
+        this.duplicateDetector?.add(normalized, validationResult.isValid);
+
+        // Findings below the queue threshold are reported but not corrected
+        const findings = getFindingsAtOrAbove(validationResult, this.queueThreshold);
 
         if (validationResult.isValid) {
           stats.validDocuments++;
           logger.debug('Document is valid', {
             questionId: normalized.question_id,
             documentId: validationResult.documentId,
+            warningCount: validationResult.warnings.length,
           });
         } else {
           stats.invalidDocuments++;
+        }
+
+        // Persist deterministic fixes of documents that are valid afterwards;
+        // documents that are still invalid get them with the AI correction
+        if (
+          options.applyFixes &&
+          validationResult.isValid &&
+          (migration.applied.length > 0 || changes.length > 0)
+        ) {
+          await this.applyFixes(doc, normalized, changes, stats);
+        }
+
+        if (findings.length > 0) {
+          const belowThreshold = [...validationResult.errors, ...validationResult.warnings].filter(
+            (finding) => !findings.includes(finding)
+          );
           // Use normalized document for backup and queue
-          await this.handleInvalidDocument(normalized, validationResult.errors, stats);
+          await this.handleInvalidDocument(
+            normalized,
+            findings,
+            stats,
+            belowThreshold,
+            changes,
+            !!options.forceRequeue
+          );
         }
       } catch (error) {
         stats.errors++;
@@ -148,13 +556,23 @@ export class ScannerService {
    */
   private async handleInvalidDocument(
     doc: any,
-    validationErrors: any[],
-    stats: ScanStats
+    validationErrors: ValidationError[],
+    stats: ScanStats,
+    validationWarnings: ValidationError[] = [],
+    normalizationChanges: NormalizationChange[] = [],
+    forceRequeue: boolean = false
   ): Promise<void> {
     try {
       const documentId = doc._id?.toString() || 'unknown';
       const questionId = doc.question_id || 'unknown';
 
+      // Skip documents whose correction is already pending (queued by an earlier scan)
+      if (this.processingState && !(await this.processingState.reserve(documentId, forceRequeue))) {
+        stats.skippedPending++;
+        logger.debug('Correction already pending, not queued again', { documentId, questionId });
+        return;
+      }
+
       logger.info('Invalid document found', {
         documentId,
         questionId,
@@ -163,7 +581,12 @@ export class ScannerService {
 
       // Step 1: Backup document
       try {
-        await this.backupManager.saveBackup(doc as CodingQuestion, validationErrors);
+        await this.backupManager.saveBackup(
+          doc as CodingQuestion,
+          validationErrors,
+          validationWarnings,
+          normalizationChanges
+        );
         stats.backedUp++;
         logger.debug('Document backed up', { documentId, questionId });
       } catch (backupError) {
@@ -180,11 +603,13 @@ export class ScannerService {
           documentId,
           failedDocument: doc as CodingQuestion,
           validationErrors,
+          ...(normalizationChanges.length > 0 && { normalizationChanges }),
           timestamp: new Date().toISOString(),
           retryCount: 0,
         };
 
-        await this.queueService.addJob(queueMessage);
+        const messageId = await this.queueService.addJob(queueMessage);
+        await this.processingState?.markQueued(documentId, messageId);
         stats.queued++;
         logger.debug('Document queued', { documentId, questionId });
       } catch (queueError) {
@@ -192,6 +617,12 @@ export class ScannerService {
           documentId,
           error: (queueError as Error).message,
         });
+        // Release the reservation so the next scan queues it
+        await this.processingState?.markFailed(
+          documentId,
+          `Failed to queue: ${(queueError as Error).message}`,
+          true
+        );
         stats.errors++;
       }
     } catch (error) {
@@ -203,15 +634,159 @@ export class ScannerService {
   }
 
   /**
-   * Log final statistics
+   * Save scan progress; failures are logged so the scan itself continues
+   */
+  private async saveCheckpoint(
+    store: CheckpointStore,
+    scope: string,
+    filter: string | undefined,
+    status: 'running' | 'completed',
+    lastProcessedId: any,
+    stats: ScanStats
+  ): Promise<void> {
+    try {
+      await store.save({
+        scope,
+        status,
+        lastProcessedId: serializeId(lastProcessedId),
+        ...(filter && { filter }),
+        stats: JSON.parse(JSON.stringify(stats)),
+        startedAt: stats.startTime.toISOString(),
+        updatedAt: new Date().toISOString(),
+      });
+      logger.debug('Scan checkpoint saved', { scope, status, scanned: stats.totalScanned });
+    } catch (error) {
+      logger.error('Failed to save scan checkpoint', {
+        scope,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Back up the stored document and write the normalized one in its place
    */
-  private logFinalStats(stats: ScanStats): void {
+  private async applyFixes(
+    original: any,
+    normalized: any,
+    changes: NormalizationChange[],
+    stats: ScanStats
+  ): Promise<void> {
+    const documentId = original._id?.toString();
+
+    try {
+      await this.backupManager.saveNormalizationBackup(original as CodingQuestion, changes);
+      const updated = await this.updaterService!.updateDocument(
+        documentId,
+        normalized as CodingQuestion
+      );
+      if (!updated) {
+        throw new Error('Update returned false');
+      }
+
+      stats.fixesApplied++;
+      logger.info('Normalization fixes applied', {
+        documentId,
+        questionId: normalized.question_id,
+        changeCount: changes.length,
+      });
+    } catch (error) {
+      stats.fixesFailed++;
+      logger.error('Failed to apply normalization fixes', {
+        documentId,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Detect duplicate clusters and write the duplicate report
+   */
+  private async reportDuplicates(detector: DuplicateDetector): Promise<DuplicateStats> {
+    logger.info('Checking collection for duplicate questions...');
+    const report = detector.detect();
+
+    if (report.clusters.length > 0) {
+      logger.warn('Duplicate questions found', report.stats);
+    } else {
+      logger.info('No duplicate questions found', report.stats);
+    }
+
+    try {
+      await new DuplicateReportManager(this.duplicateConfig!.reportPath).writeReport(report);
+    } catch {
+      // Already logged; the scan results are still valid
+    }
+
+    return report.stats;
+  }
+
+  /**
+   * Count warning and info findings per rule
+   */
+  private recordWarnings(result: ValidationResult, stats: ScanStats): void {
+    if (result.warnings.length === 0) {
+      return;
+    }
+
+    stats.documentsWithWarnings++;
+    stats.warnings += result.warnings.length;
+    result.warnings.forEach((warning) => {
+      const ruleId = warning.ruleId || 'unknown';
+      stats.warningsByRule[ruleId] = (stats.warningsByRule[ruleId] || 0) + 1;
+    });
+
+    logger.debug('Document has warnings', {
+      documentId: result.documentId,
+      warnings: result.warnings.map((warning) => `${warning.ruleId}: ${warning.message}`),
+    });
+  }
+
+  /**
+   * Count normalization changes per step
+   */
+  private recordNormalization(changes: NormalizationChange[], stats: ScanStats): void {
+    if (changes.length === 0) {
+      return;
+    }
+
+    stats.normalizedDocuments++;
+    changes.forEach((change) => {
+      stats.normalizationChangesByStep[change.step] =
+        (stats.normalizationChangesByStep[change.step] || 0) + 1;
+    });
+  }
+
+  /**
+   * Count documents per tag and collect tags missing from the taxonomy
+   */
+  private recordTags(doc: any, stats: ScanStats): void {
+    if (!Array.isArray(doc.topic_tags)) {
+      return;
+    }
+
+    const taxonomy = TagTaxonomy.getDefault();
+    doc.topic_tags.forEach((tag: unknown) => {
+      if (typeof tag !== 'string') {
+        return;
+      }
+      stats.tagHistogram[tag] = (stats.tagHistogram[tag] || 0) + 1;
+      if (!taxonomy.isCanonical(tag) && !stats.unmappedTags.includes(tag)) {
+        stats.unmappedTags.push(tag);
+      }
+    });
+  }
+
+  /**
+   * Log final statistics (also of merged partitioned scans)
+   */
+  logFinalStats(stats: ScanStats, title: string = 'SCAN COMPLETED'): void {
     const duration = stats.endTime
       ? (stats.endTime.getTime() - stats.startTime.getTime()) / 1000
       : 0;
 
     logger.info('='.repeat(60));
-    logger.info('SCAN COMPLETED');
+    logger.info(title);
     logger.info('='.repeat(60));
     logger.info('Statistics:', {
       totalScanned: stats.totalScanned,
@@ -219,14 +794,106 @@ export class ScannerService {
       invalidDocuments: stats.invalidDocuments,
       backedUp: stats.backedUp,
       queued: stats.queued,
+      skippedPending: stats.skippedPending,
       errors: stats.errors,
       skippedCorrupted: stats.skippedCorrupted,
+      documentsWithWarnings: stats.documentsWithWarnings,
+      warnings: stats.warnings,
+      warningsByRule: stats.warningsByRule,
+      schemaVersions: stats.schemaVersions,
+      migrated: stats.migrated,
+      resumedAt: stats.resumedAt,
+      changeEvents: stats.changeEvents,
+      ownWritesSkipped: stats.ownWritesSkipped,
+      normalizedDocuments: stats.normalizedDocuments,
+      normalizationChangesByStep: stats.normalizationChangesByStep,
+      fixesApplied: stats.fixesApplied,
+      fixesFailed: stats.fixesFailed,
+      tagHistogram: sortByCount(stats.tagHistogram),
+      unmappedTags: [...stats.unmappedTags].sort(),
+      duplicates: stats.duplicates,
       durationSeconds: duration.toFixed(2),
       docsPerSecond: (stats.totalScanned / duration).toFixed(2),
     });
     logger.info('='.repeat(60));
   }
 
+  /**
+   * Migrate every document to the target schema version and write it back.
+   * Migrations are deterministic, so no validation or AI step is involved.
+   */
+  async migrateAll(
+    targetVersion: number = this.migrationRunner.currentVersion,
+    dryRun: boolean = false
+  ): Promise<MigrationStats> {
+    const stats: MigrationStats = {
+      targetVersion,
+      dryRun,
+      totalScanned: 0,
+      migrated: 0,
+      alreadyAtTarget: 0,
+      errors: 0,
+      schemaVersions: {},
+      startTime: new Date(),
+    };
+
+    logger.info('Starting bulk migration', { targetVersion, dryRun, batchSize: this.batchSize });
+
+    for await (const batch of this.mongoService.fetchDocumentsBatch(this.batchSize)) {
+      for (const doc of batch) {
+        stats.totalScanned++;
+        const documentId = doc._id?.toString();
+
+        try {
+          const migration = this.migrationRunner.migrate(doc, targetVersion);
+          const versionKey = `v${migration.fromVersion}`;
+          stats.schemaVersions[versionKey] = (stats.schemaVersions[versionKey] || 0) + 1;
+
+          if (migration.applied.length === 0) {
+            stats.alreadyAtTarget++;
+            continue;
+          }
+
+          if (!dryRun) {
+            const updated = await this.mongoService.updateDocument(
+              documentId,
+              migration.document as CodingQuestion
+            );
+            if (!updated) {
+              stats.errors++;
+              continue;
+            }
+          }
+
+          stats.migrated++;
+          logger.debug('Document migrated', {
+            documentId,
+            fromVersion: migration.fromVersion,
+            toVersion: migration.toVersion,
+            applied: migration.applied,
+            dryRun,
+          });
+        } catch (error) {
+          stats.errors++;
+          logger.error('Failed to migrate document', {
+            documentId,
+            error: (error as Error).message,
+          });
+        }
+      }
+
+      logger.info('Migration progress', {
+        scanned: stats.totalScanned,
+        migrated: stats.migrated,
+        errors: stats.errors,
+      });
+    }
+
+    stats.endTime = new Date();
+    logger.info('Bulk migration completed', stats);
+    return stats;
+  }
+
   /**
    * Scan specific document by ID
    */
@@ -238,7 +905,8 @@ export class ScannerService {
         return false;
       }
 
-      const validationResult = this.validator.validate(doc);
+      const { document } = this.migrationRunner.migrate(doc);
+      const validationResult = this.validator.validate(document);
       return validationResult.isValid;
     } catch (error) {
       logger.error('Error scanning document', {
@@ -249,3 +917,79 @@ export class ScannerService {
     }
   }
 }
+
+/**
+ * Histogram entries from most to least frequent
+ */
+function sortByCount(histogram: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(Object.entries(histogram).sort(([, a], [, b]) => b - a));
+}
+
+/**
+ * Empty statistics for a new scan or watch
+ */
+function createScanStats(): ScanStats {
+  return {
+    totalScanned: 0,
+    validDocuments: 0,
+    invalidDocuments: 0,
+    backedUp: 0,
+    queued: 0,
+    skippedPending: 0,
+    errors: 0,
+    skippedCorrupted: 0,
+    documentsWithWarnings: 0,
+    warnings: 0,
+    warningsByRule: {},
+    schemaVersions: {},
+    migrated: 0,
+    normalizedDocuments: 0,
+    normalizationChangesByStep: {},
+    fixesApplied: 0,
+    fixesFailed: 0,
+    tagHistogram: {},
+    unmappedTags: [],
+    startTime: new Date(),
+  };
+}
+
+/**
+ * Combine the statistics of partitioned scan ranges (as JSON): counters and
+ * histograms are summed, unmapped tags are combined, and the run spans from
+ * the earliest start to the latest end
+ */
+export function mergeScanStats(partials: Array<Record<string, any>>): ScanStats {
+  const merged: Record<string, any> = createScanStats();
+  const isHistogram = (value: any) =>
+    value &&
+    typeof value === 'object' &&
+    Object.values(value).every((count) => typeof count === 'number');
+
+  partials.forEach((partial) => {
+    Object.entries(partial).forEach(([key, value]) => {
+      if (typeof value === 'number') {
+        merged[key] = (merged[key] || 0) + value;
+      } else if (Array.isArray(value)) {
+        merged[key] = Array.from(new Set([...(merged[key] || []), ...value]));
+      } else if (key !== 'duplicates' && isHistogram(value)) {
+        merged[key] = merged[key] || {};
+        Object.entries(value as Record<string, number>).forEach(([name, count]) => {
+          merged[key][name] = (merged[key][name] || 0) + count;
+        });
+      }
+    });
+  });
+
+  const times = (key: string) =>
+    partials.filter((partial) => partial[key]).map((partial) => new Date(partial[key]).getTime());
+  const starts = times('startTime');
+  const ends = times('endTime');
+  if (starts.length > 0) {
+    merged.startTime = new Date(Math.min(...starts));
+  }
+  if (ends.length > 0) {
+    merged.endTime = new Date(Math.max(...ends));
+  }
+
+  return merged as ScanStats;
+}
@@ -15,10 +15,11 @@ export class UpdaterService {
   constructor(
     mongoService: MongoDBService,
     retryMaxAttempts: number = 3,
-    retryDelayMs: number = 5000
+    retryDelayMs: number = 5000,
+    validator: SchemaValidator = new SchemaValidator() // The configured one, so rule settings apply
   ) {
     this.mongoService = mongoService;
-    this.validator = new SchemaValidator();
+    this.validator = validator;
     this.retryOptions = RetryHelper.createOptions(retryMaxAttempts, retryDelayMs, true);
   }
 
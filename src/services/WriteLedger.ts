@@ -0,0 +1,82 @@
+import crypto from 'crypto';
+import { Document } from 'mongodb';
+import { MongoDBService } from './MongoDBService';
+import { logger } from '../utils/Logger';
+import { stableStringify } from '../utils/StableStringify';
+
+/**
+ * One write made by the pipeline itself
+ */
+interface LedgerEntry {
+  _id: string; // Document id
+  hash: string; // Content hash of the written document
+  writtenAt: Date;
+}
+
+/**
+ * Write Ledger - Records the documents the pipeline writes (AI corrections,
+ * applied fixes, migrations) so the change stream watcher can recognise
+ * the resulting events and does not validate and queue them again.
+ *
+ * Entries are keyed by document id and hold a content hash: a later edit
+ * by someone else changes the hash and is validated as usual. Unclaimed
+ * entries expire through a TTL index.
+ */
+export class WriteLedger {
+  private mongoService: MongoDBService;
+  private collectionName: string;
+  private ttlSeconds: number;
+
+  constructor(mongoService: MongoDBService, collectionName: string, ttlSeconds: number = 86400) {
+    this.mongoService = mongoService;
+    this.collectionName = collectionName;
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  /**
+   * Create the TTL index that expires unclaimed entries
+   */
+  async initialize(): Promise<void> {
+    await this.collection().createIndex({ writtenAt: 1 }, { expireAfterSeconds: this.ttlSeconds });
+    logger.debug('Write ledger initialized', {
+      collection: this.collectionName,
+      ttlSeconds: this.ttlSeconds,
+    });
+  }
+
+  /**
+   * Record a write before it is made, so its change event always finds the entry
+   */
+  async record(documentId: string, document: Document): Promise<void> {
+    await this.collection().replaceOne(
+      { _id: documentId },
+      { hash: hashDocument(document), writtenAt: new Date() },
+      { upsert: true }
+    );
+  }
+
+  /**
+   * True when the document is exactly what the pipeline last wrote; the
+   * entry is removed so the same content written by someone else later
+   * is validated again
+   */
+  async claim(documentId: string, document: Document): Promise<boolean> {
+    const result = await this.collection().findOneAndDelete({
+      _id: documentId,
+      hash: hashDocument(document),
+    });
+    return result !== null;
+  }
+
+  private collection() {
+    return this.mongoService.getNamedCollection<LedgerEntry>(this.collectionName);
+  }
+}
+
+/**
+ * Hash of a document without its _id; keys are sorted so field order does not matter
+ */
+export function hashDocument(document: Document): string {
+  const { _id, ...content } = document;
+  return crypto.createHash('sha256').update(stableStringify(content, { undefinedAsNull: true })).digest('hex');
+}
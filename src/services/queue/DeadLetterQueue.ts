@@ -0,0 +1,228 @@
+import { QueueBackend, ReceivedMessage } from './QueueBackend';
+
+/**
+ * A message that ran out of attempts, as stored in the dead-letter queue
+ */
+export interface DeadLetterRecord {
+  body: string; // Original message body, sent again as is on redrive
+  payloadRef?: string; // Claim-checked document, kept until the message is purged
+  sourceMessageId: string;
+  documentId?: string;
+  questionId?: string;
+  lastError: string;
+  attempts: number;
+  queuedAt?: string; // When the scanner queued the document
+  deadLetteredAt: string;
+}
+
+/**
+ * A dead-lettered message as listed by the dead-letter queue
+ */
+export interface DeadLetterEntry {
+  id: string;
+  record: DeadLetterRecord;
+}
+
+/**
+ * Selects dead-lettered messages; an empty filter selects all of them
+ */
+export interface DeadLetterFilter {
+  error?: string; // Case-insensitive substring of the last error
+  documentIds?: string[];
+  ids?: string[]; // Dead-letter message ids
+}
+
+/**
+ * How long messages stay hidden while a pass over the queue reads them
+ */
+const PASS_VISIBILITY_SECONDS = 60;
+
+/**
+ * Dead Letter Queue - Keeps messages that failed every attempt, with their
+ * last error, attempt count and timestamps, on a second backend of the same
+ * kind as the main queue. Listing, purging and redriving make one pass over
+ * the queue: every message is received (hidden for the pass), and the ones
+ * that are not removed are made visible again at the end. Listing stops as
+ * soon as it has the requested messages.
+ */
+export class DeadLetterQueue {
+  private backend: QueueBackend;
+
+  constructor(backend: QueueBackend) {
+    this.backend = backend;
+  }
+
+  async add(record: DeadLetterRecord): Promise<string> {
+    return this.backend.send(JSON.stringify(record), {
+      attributes: {
+        ...(record.documentId && { documentId: record.documentId }),
+        attempts: String(record.attempts),
+      },
+    });
+  }
+
+  async list(filter: DeadLetterFilter = {}, limit?: number): Promise<DeadLetterEntry[]> {
+    const entries: DeadLetterEntry[] = [];
+    // Stop reading once the limit or every requested id is reached
+    const max = Math.min(limit ?? Infinity, filter.ids?.length || Infinity);
+    await this.pass(
+      filter,
+      async (entry) => {
+        entries.push(entry);
+        return false;
+      },
+      () => entries.length >= max
+    );
+    return entries;
+  }
+
+  /**
+   * Delete the matching messages; returns how many were deleted
+   */
+  async purge(
+    filter: DeadLetterFilter = {},
+    onPurge?: (entry: DeadLetterEntry) => Promise<void>
+  ): Promise<number> {
+    let purged = 0;
+    await this.pass(filter, async (entry) => {
+      await onPurge?.(entry);
+      purged++;
+      return true;
+    });
+    return purged;
+  }
+
+  /**
+   * Send the original body of the matching messages to `target` and delete
+   * them here; `onRedrive` gets each entry with its new message id
+   */
+  async redrive(
+    target: QueueBackend,
+    filter: DeadLetterFilter = {},
+    onRedrive?: (entry: DeadLetterEntry, messageId: string) => Promise<void>
+  ): Promise<number> {
+    let redriven = 0;
+    await this.pass(filter, async (entry) => {
+      const messageId = await target.send(entry.record.body, {
+        attributes: {
+          ...(entry.record.documentId && { documentId: entry.record.documentId }),
+          ...(entry.record.questionId && { questionId: entry.record.questionId }),
+          attemptNumber: '0',
+        },
+      });
+      await onRedrive?.(entry, messageId);
+      redriven++;
+      return true;
+    });
+    return redriven;
+  }
+
+  async getCount(): Promise<number> {
+    const stats = await this.backend.getStats();
+    return stats.waiting + stats.active + stats.delayed;
+  }
+
+  async close(): Promise<void> {
+    await this.backend.close();
+  }
+
+  static matches(record: DeadLetterRecord, id: string, filter: DeadLetterFilter): boolean {
+    if (filter.ids && filter.ids.length > 0 && !filter.ids.includes(id)) {
+      return false;
+    }
+    if (
+      filter.documentIds &&
+      filter.documentIds.length > 0 &&
+      !(record.documentId && filter.documentIds.includes(record.documentId))
+    ) {
+      return false;
+    }
+    if (filter.error && !record.lastError.toLowerCase().includes(filter.error.toLowerCase())) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Receive every message once and call `visit` for the matching ones;
+   * a message is deleted when `visit` returns true, released otherwise.
+   * Held messages are kept hidden until the pass ends (or `done` says so),
+   * and a message seen again is not visited twice.
+   */
+  private async pass(
+    filter: DeadLetterFilter,
+    visit: (entry: DeadLetterEntry) => Promise<boolean>,
+    done: () => boolean = () => false
+  ): Promise<void> {
+    const held = new Map<string, ReceivedMessage>();
+    let renewedAt = Date.now();
+    try {
+      while (!done()) {
+        if (Date.now() - renewedAt >= (PASS_VISIBILITY_SECONDS * 1000) / 2) {
+          await this.renew(held);
+          renewedAt = Date.now();
+        }
+
+        const messages = await this.backend.receive(10, 1, PASS_VISIBILITY_SECONDS);
+        const unseen = messages.filter((message) => !held.has(message.id));
+        // Messages seen earlier in the pass only need their newest receipt
+        messages
+          .filter((message) => held.has(message.id))
+          .forEach((message) => held.set(message.id, message));
+        if (unseen.length === 0) {
+          break;
+        }
+
+        for (const message of unseen) {
+          if (done()) {
+            held.set(message.id, message);
+            continue;
+          }
+          const entry = { id: message.id, record: DeadLetterQueue.parse(message) };
+          if (DeadLetterQueue.matches(entry.record, entry.id, filter) && (await visit(entry))) {
+            await this.backend.ack(message);
+          } else {
+            held.set(message.id, message);
+          }
+        }
+      }
+    } finally {
+      for (const message of held.values()) {
+        await this.backend.nack(message, 0);
+      }
+    }
+  }
+
+  /**
+   * Keep the held messages hidden for another pass window
+   */
+  private async renew(held: Map<string, ReceivedMessage>): Promise<void> {
+    for (const message of held.values()) {
+      await this.backend.extendVisibility(message, PASS_VISIBILITY_SECONDS).catch(() => {
+        // Expired already: it may be received again, and is then not visited twice
+      });
+    }
+  }
+
+  /**
+   * Record of a message; bodies that are not records are kept as the body
+   */
+  private static parse(message: ReceivedMessage): DeadLetterRecord {
+    try {
+      const record = JSON.parse(message.body);
+      if (record && typeof record.body === 'string' && typeof record.lastError === 'string') {
+        return record;
+      }
+    } catch {
+      // Fall through
+    }
+    return {
+      body: message.body,
+      sourceMessageId: message.id,
+      documentId: message.attributes.documentId,
+      lastError: 'unknown (not a dead-letter record)',
+      attempts: message.attempt,
+      deadLetteredAt: '',
+    };
+  }
+}
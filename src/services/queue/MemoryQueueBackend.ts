@@ -0,0 +1,115 @@
+import crypto from 'crypto';
+import { QueueStats } from '../../models/QueueMessage';
+import { QueueBackend, ReceivedMessage, SendOptions } from './QueueBackend';
+
+/**
+ * A message held in memory
+ */
+interface MemoryMessage {
+  id: string;
+  body: string;
+  attributes: Record<string, string>;
+  visibleAt: number;
+  receiveCount: number;
+  receipt?: string;
+}
+
+/**
+ * How often a waiting receive checks for visible messages
+ */
+const POLL_INTERVAL_MS = 50;
+
+/**
+ * In-process backend for local runs and tests: messages live only as long
+ * as the process, so the scanner and the consumer must share one instance
+ * (see pipeline.ts)
+ */
+export class MemoryQueueBackend implements QueueBackend {
+  readonly name = 'memory';
+  private messages: MemoryMessage[] = [];
+  private closed = false;
+
+  async send(body: string, options: SendOptions = {}): Promise<string> {
+    const id = crypto.randomUUID();
+    this.messages.push({
+      id,
+      body,
+      attributes: { ...options.attributes },
+      visibleAt: Date.now() + (options.delaySeconds || 0) * 1000,
+      receiveCount: 0,
+    });
+    return id;
+  }
+
+  async receive(
+    maxMessages: number,
+    waitSeconds: number,
+    visibilityTimeoutSeconds: number
+  ): Promise<ReceivedMessage[]> {
+    const deadline = Date.now() + waitSeconds * 1000;
+
+    for (;;) {
+      const now = Date.now();
+      const visible = this.messages
+        .filter((message) => message.visibleAt <= now)
+        .slice(0, maxMessages);
+      if (visible.length > 0 || now >= deadline || this.closed) {
+        return visible.map((message) => {
+          message.visibleAt = now + visibilityTimeoutSeconds * 1000;
+          message.receiveCount++;
+          message.receipt = crypto.randomUUID();
+          return {
+            id: message.id,
+            receipt: message.receipt,
+            body: message.body,
+            attempt: message.receiveCount,
+            attributes: { ...message.attributes },
+          };
+        });
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, Math.min(POLL_INTERVAL_MS, deadline - now))
+      );
+    }
+  }
+
+  async ack(message: ReceivedMessage): Promise<void> {
+    const index = this.messages.findIndex(
+      (held) => held.id === message.id && held.receipt === message.receipt
+    );
+    if (index === -1) {
+      throw new Error(`Message ${message.id} is no longer held by this receipt`);
+    }
+    this.messages.splice(index, 1);
+  }
+
+  async nack(message: ReceivedMessage, delaySeconds: number): Promise<void> {
+    await this.extendVisibility(message, delaySeconds);
+  }
+
+  async extendVisibility(message: ReceivedMessage, seconds: number): Promise<void> {
+    const held = this.messages.find(
+      (candidate) => candidate.id === message.id && candidate.receipt === message.receipt
+    );
+    if (!held) {
+      throw new Error(`Message ${message.id} is no longer held by this receipt`);
+    }
+    held.visibleAt = Date.now() + seconds * 1000;
+  }
+
+  async getStats(): Promise<QueueStats> {
+    const now = Date.now();
+    const hidden = this.messages.filter((message) => message.visibleAt > now);
+    return {
+      waiting: this.messages.length - hidden.length,
+      active: hidden.filter((message) => message.receiveCount > 0).length,
+      completed: 0, // Acknowledged messages are dropped
+      failed: 0,
+      delayed: hidden.filter((message) => message.receiveCount === 0).length,
+    };
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+  }
+}
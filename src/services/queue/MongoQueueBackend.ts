@@ -0,0 +1,153 @@
+import crypto from 'crypto';
+import { ObjectId } from 'mongodb';
+import { QueueStats } from '../../models/QueueMessage';
+import { MongoDBService } from '../MongoDBService';
+import { QueueBackend, ReceivedMessage, SendOptions } from './QueueBackend';
+
+/**
+ * A message stored in the queue collection
+ */
+interface MongoQueueMessage {
+  _id: ObjectId;
+  body: string;
+  attributes: Record<string, string>;
+  visibleAt: Date;
+  receiveCount: number;
+  receipt?: string;
+  createdAt: Date;
+}
+
+/**
+ * How often a waiting receive checks for visible messages
+ */
+const POLL_INTERVAL_MS = 1000;
+
+/**
+ * Durable backend on a MongoDB collection of the configured database.
+ * A delivery atomically hides the oldest visible message and gives it a new
+ * receipt, so scanner and consumer processes can share the queue without SQS.
+ */
+export class MongoQueueBackend implements QueueBackend {
+  readonly name = 'mongo';
+  private mongoService: MongoDBService;
+  private collectionName: string;
+  private indexed = false;
+  private closed = false;
+
+  constructor(mongoService: MongoDBService, collectionName: string) {
+    this.mongoService = mongoService;
+    this.collectionName = collectionName;
+  }
+
+  async send(body: string, options: SendOptions = {}): Promise<string> {
+    await this.ensureIndex();
+    const now = Date.now();
+    const result = await this.collection().insertOne({
+      _id: new ObjectId(),
+      body,
+      attributes: { ...options.attributes },
+      visibleAt: new Date(now + (options.delaySeconds || 0) * 1000),
+      receiveCount: 0,
+      createdAt: new Date(now),
+    });
+    return result.insertedId.toHexString();
+  }
+
+  async receive(
+    maxMessages: number,
+    waitSeconds: number,
+    visibilityTimeoutSeconds: number
+  ): Promise<ReceivedMessage[]> {
+    await this.ensureIndex();
+    const deadline = Date.now() + waitSeconds * 1000;
+
+    for (;;) {
+      const received: ReceivedMessage[] = [];
+      while (received.length < maxMessages) {
+        const now = new Date();
+        const message = await this.collection().findOneAndUpdate(
+          { visibleAt: { $lte: now } },
+          {
+            $set: {
+              visibleAt: new Date(now.getTime() + visibilityTimeoutSeconds * 1000),
+              receipt: crypto.randomUUID(),
+            },
+            $inc: { receiveCount: 1 },
+          },
+          { sort: { visibleAt: 1 }, returnDocument: 'after' }
+        );
+        if (!message) {
+          break;
+        }
+        received.push({
+          id: message._id.toHexString(),
+          receipt: message.receipt!,
+          body: message.body,
+          attempt: message.receiveCount,
+          attributes: message.attributes,
+        });
+      }
+
+      const remaining = deadline - Date.now();
+      if (received.length > 0 || remaining <= 0 || this.closed) {
+        return received;
+      }
+      await new Promise((resolve) => setTimeout(resolve, Math.min(POLL_INTERVAL_MS, remaining)));
+    }
+  }
+
+  async ack(message: ReceivedMessage): Promise<void> {
+    const result = await this.collection().deleteOne(this.heldBy(message));
+    if (result.deletedCount === 0) {
+      throw new Error(`Message ${message.id} is no longer held by this receipt`);
+    }
+  }
+
+  async nack(message: ReceivedMessage, delaySeconds: number): Promise<void> {
+    await this.extendVisibility(message, delaySeconds);
+  }
+
+  async extendVisibility(message: ReceivedMessage, seconds: number): Promise<void> {
+    const result = await this.collection().updateOne(this.heldBy(message), {
+      $set: { visibleAt: new Date(Date.now() + seconds * 1000) },
+    });
+    if (result.matchedCount === 0) {
+      throw new Error(`Message ${message.id} is no longer held by this receipt`);
+    }
+  }
+
+  async getStats(): Promise<QueueStats> {
+    const now = new Date();
+    const [waiting, active, delayed] = await Promise.all([
+      this.collection().countDocuments({ visibleAt: { $lte: now } }),
+      this.collection().countDocuments({ visibleAt: { $gt: now }, receiveCount: { $gt: 0 } }),
+      this.collection().countDocuments({ visibleAt: { $gt: now }, receiveCount: 0 }),
+    ]);
+    return {
+      waiting,
+      active,
+      completed: 0, // Acknowledged messages are deleted
+      failed: 0,
+      delayed,
+    };
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+  }
+
+  private heldBy(message: ReceivedMessage) {
+    return { _id: new ObjectId(message.id), receipt: message.receipt };
+  }
+
+  private async ensureIndex(): Promise<void> {
+    if (!this.indexed) {
+      await this.collection().createIndex({ visibleAt: 1 });
+      this.indexed = true;
+    }
+  }
+
+  private collection() {
+    return this.mongoService.getNamedCollection<MongoQueueMessage>(this.collectionName);
+  }
+}
@@ -0,0 +1,60 @@
+import { QueueStats } from '../../models/QueueMessage';
+
+/**
+ * A message handed to a worker. `receipt` identifies this delivery:
+ * acknowledging or extending with the receipt of an earlier delivery fails.
+ */
+export interface ReceivedMessage {
+  id: string;
+  receipt: string;
+  body: string;
+  attempt: number; // 1 on the first delivery
+  attributes: Record<string, string>;
+}
+
+/**
+ * Options for sending a message
+ */
+export interface SendOptions {
+  delaySeconds?: number;
+  attributes?: Record<string, string>; // Small metadata (document id, question id)
+}
+
+/**
+ * Queue Backend - Transport under QueueService. Delivery is at least once:
+ * a received message is hidden for the visibility timeout and delivered
+ * again unless it is acknowledged in time.
+ */
+export interface QueueBackend {
+  readonly name: string;
+
+  send(body: string, options?: SendOptions): Promise<string>;
+
+  /**
+   * Wait up to `waitSeconds` for up to `maxMessages` visible messages
+   */
+  receive(
+    maxMessages: number,
+    waitSeconds: number,
+    visibilityTimeoutSeconds: number
+  ): Promise<ReceivedMessage[]>;
+
+  /**
+   * Delete a processed message
+   */
+  ack(message: ReceivedMessage): Promise<void>;
+
+  /**
+   * Make a message visible again after `delaySeconds` for a retry
+   */
+  nack(message: ReceivedMessage, delaySeconds: number): Promise<void>;
+
+  /**
+   * Keep a message hidden for `seconds` from now
+   */
+  extendVisibility(message: ReceivedMessage, seconds: number): Promise<void>;
+
+  getStats(): Promise<QueueStats>;
+
+  close(): Promise<void>;
+}
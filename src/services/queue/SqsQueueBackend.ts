@@ -0,0 +1,157 @@
+import {
+  SQSClient,
+  SendMessageCommand,
+  ReceiveMessageCommand,
+  DeleteMessageCommand,
+  GetQueueAttributesCommand,
+  ChangeMessageVisibilityCommand,
+  MessageAttributeValue,
+} from '@aws-sdk/client-sqs';
+import { QueueConfig } from '../../config/queue.config';
+import { QueueStats } from '../../models/QueueMessage';
+import { logger } from '../../utils/Logger';
+import { QueueBackend, ReceivedMessage, SendOptions } from './QueueBackend';
+
+/**
+ * AWS SQS backend (or LocalStack through SQS_ENDPOINT)
+ */
+export class SqsQueueBackend implements QueueBackend {
+  readonly name = 'sqs';
+  private client: SQSClient;
+  private queueUrl: string;
+
+  constructor(config: QueueConfig) {
+    if (!config.queueUrl) {
+      throw new Error('The sqs queue backend requires SQS_QUEUE_URL');
+    }
+    this.queueUrl = config.queueUrl;
+
+    // Create SQS client
+    const clientConfig: any = {
+      region: config.region,
+    };
+
+    // Add endpoint for LocalStack
+    if (config.endpoint) {
+      clientConfig.endpoint = config.endpoint;
+      // For LocalStack, we need to set credentials
+      clientConfig.credentials = {
+        accessKeyId: 'test',
+        secretAccessKey: 'test',
+      };
+    }
+
+    this.client = new SQSClient(clientConfig);
+
+    logger.info('SQS Queue service initialized', {
+      queueUrl: config.queueUrl,
+      region: config.region,
+      endpoint: config.endpoint,
+    });
+  }
+
+  async send(body: string, options: SendOptions = {}): Promise<string> {
+    const attributes: Record<string, MessageAttributeValue> = {};
+    Object.entries(options.attributes || {}).forEach(([name, value]) => {
+      attributes[name] = { DataType: 'String', StringValue: value };
+    });
+
+    const response = await this.client.send(
+      new SendMessageCommand({
+        QueueUrl: this.queueUrl,
+        MessageBody: body,
+        DelaySeconds: options.delaySeconds || 0,
+        MessageAttributes: attributes,
+      })
+    );
+    return response.MessageId || 'unknown';
+  }
+
+  async receive(
+    maxMessages: number,
+    waitSeconds: number,
+    visibilityTimeoutSeconds: number
+  ): Promise<ReceivedMessage[]> {
+    const response = await this.client.send(
+      new ReceiveMessageCommand({
+        QueueUrl: this.queueUrl,
+        MaxNumberOfMessages: maxMessages,
+        WaitTimeSeconds: waitSeconds,
+        VisibilityTimeout: visibilityTimeoutSeconds,
+        MessageAttributeNames: ['All'],
+        AttributeNames: ['All'],
+      })
+    );
+
+    const received: ReceivedMessage[] = [];
+    (response.Messages || []).forEach((message) => {
+      if (!message.Body || !message.ReceiptHandle) {
+        logger.warn('Received message without body or receipt handle');
+        return;
+      }
+      const attributes: Record<string, string> = {};
+      Object.entries(message.MessageAttributes || {}).forEach(([name, value]) => {
+        if (value.StringValue !== undefined) {
+          attributes[name] = value.StringValue;
+        }
+      });
+      received.push({
+        id: message.MessageId || 'unknown',
+        receipt: message.ReceiptHandle,
+        body: message.Body,
+        attempt: parseInt(message.Attributes?.ApproximateReceiveCount || '1', 10),
+        attributes,
+      });
+    });
+    return received;
+  }
+
+  async ack(message: ReceivedMessage): Promise<void> {
+    await this.client.send(
+      new DeleteMessageCommand({
+        QueueUrl: this.queueUrl,
+        ReceiptHandle: message.receipt,
+      })
+    );
+  }
+
+  async nack(message: ReceivedMessage, delaySeconds: number): Promise<void> {
+    await this.extendVisibility(message, delaySeconds);
+  }
+
+  async extendVisibility(message: ReceivedMessage, seconds: number): Promise<void> {
+    await this.client.send(
+      new ChangeMessageVisibilityCommand({
+        QueueUrl: this.queueUrl,
+        ReceiptHandle: message.receipt,
+        VisibilityTimeout: seconds,
+      })
+    );
+  }
+
+  async getStats(): Promise<QueueStats> {
+    const response = await this.client.send(
+      new GetQueueAttributesCommand({
+        QueueUrl: this.queueUrl,
+        AttributeNames: [
+          'ApproximateNumberOfMessages',
+          'ApproximateNumberOfMessagesNotVisible',
+          'ApproximateNumberOfMessagesDelayed',
+        ],
+      })
+    );
+    const attrs = response.Attributes || {};
+
+    return {
+      waiting: parseInt(attrs.ApproximateNumberOfMessages || '0', 10),
+      active: parseInt(attrs.ApproximateNumberOfMessagesNotVisible || '0', 10),
+      completed: 0, // SQS doesn't track completed messages
+      failed: 0, // SQS doesn't track failed messages directly
+      delayed: parseInt(attrs.ApproximateNumberOfMessagesDelayed || '0', 10),
+    };
+  }
+
+  async close(): Promise<void> {
+    this.client.destroy();
+  }
+}
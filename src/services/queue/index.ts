@@ -0,0 +1,64 @@
+import { QueueConfig } from '../../config/queue.config';
+import { MongoDBService } from '../MongoDBService';
+import { QueueBackend } from './QueueBackend';
+import { SqsQueueBackend } from './SqsQueueBackend';
+import { MemoryQueueBackend } from './MemoryQueueBackend';
+import { MongoQueueBackend } from './MongoQueueBackend';
+import { DeadLetterQueue } from './DeadLetterQueue';
+
+export { QueueBackend, ReceivedMessage, SendOptions } from './QueueBackend';
+export { SqsQueueBackend } from './SqsQueueBackend';
+export { MemoryQueueBackend } from './MemoryQueueBackend';
+export { MongoQueueBackend } from './MongoQueueBackend';
+export {
+  DeadLetterQueue,
+  DeadLetterRecord,
+  DeadLetterEntry,
+  DeadLetterFilter,
+} from './DeadLetterQueue';
+
+/**
+ * Create the backend selected by QUEUE_BACKEND; the mongo backend needs a
+ * connected MongoDBService
+ */
+export function createQueueBackend(config: QueueConfig, mongoService?: MongoDBService): QueueBackend {
+  switch (config.backend) {
+    case 'memory':
+      return new MemoryQueueBackend();
+    case 'mongo':
+      if (!mongoService) {
+        throw new Error('The mongo queue backend requires a MongoDB connection');
+      }
+      return new MongoQueueBackend(mongoService, config.mongoCollection);
+    default:
+      return new SqsQueueBackend(config);
+  }
+}
+
+/**
+ * Create the dead-letter queue on a backend of the same kind as the main
+ * queue; undefined when disabled, or for sqs without SQS_DLQ_URL
+ */
+export function createDeadLetterQueue(
+  config: QueueConfig,
+  mongoService?: MongoDBService
+): DeadLetterQueue | undefined {
+  if (!config.deadLetterEnabled) {
+    return undefined;
+  }
+  switch (config.backend) {
+    case 'memory':
+      return new DeadLetterQueue(new MemoryQueueBackend());
+    case 'mongo':
+      if (!mongoService) {
+        throw new Error('The mongo queue backend requires a MongoDB connection');
+      }
+      return new DeadLetterQueue(
+        new MongoQueueBackend(mongoService, config.deadLetterMongoCollection)
+      );
+    default:
+      return config.deadLetterQueueUrl
+        ? new DeadLetterQueue(new SqsQueueBackend({ ...config, queueUrl: config.deadLetterQueueUrl }))
+        : undefined;
+  }
+}
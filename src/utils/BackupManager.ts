@@ -2,6 +2,7 @@ import fs from 'fs/promises';
 import path from 'path';
 import { CodingQuestion } from '../models/CodingQuestion';
 import { ValidationError } from '../models/ValidationError';
+import { NormalizationChange } from '../models/NormalizationChange';
 import { logger } from './Logger';
 
 /**
@@ -11,6 +12,8 @@ interface BackupMetadata {
   backupTime: string;
   documentId: string;
   validationErrors: ValidationError[];
+  validationWarnings?: ValidationError[]; // Findings below the queue threshold
+  normalizationChanges?: NormalizationChange[]; // Deterministic fixes made before validation
 }
 
 /**
@@ -57,7 +60,9 @@ export class BackupManager {
    */
   async saveBackup(
     document: CodingQuestion,
-    validationErrors: ValidationError[]
+    validationErrors: ValidationError[],
+    validationWarnings: ValidationError[] = [],
+    normalizationChanges: NormalizationChange[] = []
   ): Promise<string> {
     try {
       const slug = (document as any).slug || 'unknown-slug';
@@ -72,6 +77,8 @@ export class BackupManager {
           backupTime: new Date().toISOString(),
           documentId,
           validationErrors,
+          ...(validationWarnings.length > 0 && { validationWarnings }),
+          ...(normalizationChanges.length > 0 && { normalizationChanges }),
         },
         originalDocument: document,
       };
@@ -83,6 +90,8 @@ export class BackupManager {
         slug,
         documentId,
         errorCount: validationErrors.length,
+        warningCount: validationWarnings.length,
+        normalizationChangeCount: normalizationChanges.length,
       });
 
       return filepath;
@@ -95,6 +104,50 @@ export class BackupManager {
     }
   }
 
+  /**
+   * Save the stored document before normalization fixes are written back.
+   * Uses its own filename so a later failure backup of the same document
+   * does not overwrite it.
+   */
+  async saveNormalizationBackup(
+    document: CodingQuestion,
+    normalizationChanges: NormalizationChange[]
+  ): Promise<string> {
+    try {
+      const slug = (document as any).slug || 'unknown-slug';
+      const mongoId = document._id ? document._id.toString() : 'no-id';
+
+      const filename = `${slug}_${mongoId}_pre-normalization.json`;
+      const filepath = path.join(this.failedQuestionsDir, filename);
+
+      const backupData: BackupData = {
+        metadata: {
+          backupTime: new Date().toISOString(),
+          documentId: mongoId,
+          validationErrors: [],
+          normalizationChanges,
+        },
+        originalDocument: document,
+      };
+
+      await fs.writeFile(filepath, JSON.stringify(backupData, null, 2), 'utf-8');
+
+      logger.debug('Document backed up before normalization fixes', {
+        filepath,
+        documentId: mongoId,
+        changeCount: normalizationChanges.length,
+      });
+
+      return filepath;
+    } catch (error) {
+      logger.error('Failed to save normalization backup', {
+        questionId: document.question_id,
+        error: (error as Error).message,
+      });
+      throw error;
+    }
+  }
+
   /**
    * Save corrected document to corrected questions directory
    */
@@ -0,0 +1,42 @@
+/**
+ * Read a "--name=value" or "--name value" command line option
+ */
+export function getArgValue(name: string, argv: string[] = process.argv.slice(2)): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === `--${name}`) {
+      return argv[i + 1];
+    }
+    if (argv[i].startsWith(`--${name}=`)) {
+      return argv[i].slice(name.length + 3);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check for a boolean "--name" flag
+ */
+export function hasFlag(name: string, argv: string[] = process.argv.slice(2)): boolean {
+  return argv.includes(`--${name}`);
+}
+
+/**
+ * Positional arguments (everything that is not an option or an option value);
+ * only the options in `valueOptions` take the next argument as their value
+ */
+export function getPositionalArgs(
+  valueOptions: string[] = [],
+  argv: string[] = process.argv.slice(2)
+): string[] {
+  const positional: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      if (valueOptions.includes(argv[i].slice(2)) && i + 1 < argv.length) {
+        i++;
+      }
+      continue;
+    }
+    positional.push(argv[i]);
+  }
+  return positional;
+}
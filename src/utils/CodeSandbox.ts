@@ -0,0 +1,324 @@
+import { spawn } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ExecutionConfig } from '../config/execution.config';
+import { LanguageCode } from '../models/CodingQuestion';
+import { logger } from './Logger';
+
+/**
+ * Supported sandbox languages (mirrors LanguageCodeSchema keys)
+ */
+export type SandboxLanguage = keyof LanguageCode;
+
+/**
+ * Result of running a single process inside the sandbox
+ */
+export interface ProcessResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  timedOut: boolean;
+  outputLimitExceeded: boolean;
+}
+
+/**
+ * A compiled (or syntax-checked) program ready to run
+ */
+export interface PreparedProgram {
+  language: SandboxLanguage;
+  workDir: string;
+  compiled: boolean;
+  compileOutput: string;
+  runCommand: string[];
+}
+
+/**
+ * Toolchain definition for a language
+ */
+interface LanguageToolchain {
+  probe: string[];
+  sourceFile: (source: string) => string;
+  compile: (sourceFile: string, config: ExecutionConfig) => string[];
+  run: (sourceFile: string, config: ExecutionConfig) => string[];
+  // JVM and V8 reserve far more virtual memory than they use, so they are
+  // capped through their own heap flags instead of `ulimit -v`
+  limitVirtualMemory: boolean;
+}
+
+const TOOLCHAINS: Record<SandboxLanguage, LanguageToolchain> = {
+  c: {
+    probe: ['gcc', '--version'],
+    sourceFile: () => 'main.c',
+    compile: (file) => ['gcc', '-O2', '-std=c11', '-o', 'main', file, '-lm'],
+    run: () => ['./main'],
+    limitVirtualMemory: true,
+  },
+  cpp: {
+    probe: ['g++', '--version'],
+    sourceFile: () => 'main.cpp',
+    compile: (file) => ['g++', '-O2', '-std=c++17', '-o', 'main', file],
+    run: () => ['./main'],
+    limitVirtualMemory: true,
+  },
+  java: {
+    probe: ['javac', '-version'],
+    sourceFile: (source) => {
+      const match = source.match(/public\s+(?:final\s+)?class\s+([A-Za-z_$][\w$]*)/);
+      return `${match ? match[1] : 'Main'}.java`;
+    },
+    compile: (file) => ['javac', '-encoding', 'UTF-8', file],
+    run: (file, config) => [
+      'java',
+      `-Xmx${config.memoryLimitMb}m`,
+      '-Xss64m',
+      '-cp',
+      '.',
+      path.basename(file, '.java'),
+    ],
+    limitVirtualMemory: false,
+  },
+  javascript: {
+    probe: ['node', '--version'],
+    sourceFile: () => 'main.js',
+    compile: (file) => ['node', '--check', file],
+    run: (file, config) => ['node', `--max-old-space-size=${config.memoryLimitMb}`, file],
+    limitVirtualMemory: false,
+  },
+  python: {
+    probe: ['python3', '--version'],
+    sourceFile: () => 'main.py',
+    compile: (file) => ['python3', '-m', 'py_compile', file],
+    run: (file) => ['python3', file],
+    limitVirtualMemory: true,
+  },
+};
+
+/**
+ * Code Sandbox - Compiles and runs untrusted solution code with local toolchains
+ * under time, memory, output and network limits
+ */
+export class CodeSandbox {
+  private config: ExecutionConfig;
+  private availableLanguages: Set<SandboxLanguage> = new Set();
+  private initialized: boolean = false;
+
+  constructor(config: ExecutionConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Probe toolchains and network isolation support
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+
+    if (this.config.networkIsolation) {
+      const probe = await this.exec(['unshare', '--net', '--map-root-user', 'true'], {
+        cwd: os.tmpdir(),
+        timeoutMs: this.config.compileTimeoutMs,
+        isolate: false,
+      });
+      if (probe.exitCode !== 0) {
+        throw new Error(
+          'Network isolation requested but "unshare --net --map-root-user" is unavailable. ' +
+          'Enable user namespaces or set EXECUTION_NETWORK_ISOLATION=false.'
+        );
+      }
+    }
+
+    for (const language of this.config.languages) {
+      const probe = await this.exec(TOOLCHAINS[language].probe, {
+        cwd: os.tmpdir(),
+        timeoutMs: this.config.compileTimeoutMs,
+        isolate: false,
+      });
+      if (probe.exitCode === 0) {
+        this.availableLanguages.add(language);
+      } else {
+        logger.warn('Toolchain not available, skipping language in execution checks', {
+          language,
+          command: TOOLCHAINS[language].probe[0],
+        });
+      }
+    }
+
+    this.initialized = true;
+    logger.info('Code sandbox initialized', {
+      languages: Array.from(this.availableLanguages),
+      networkIsolation: this.config.networkIsolation,
+      memoryLimitMb: this.config.memoryLimitMb,
+      runTimeoutMs: this.config.runTimeoutMs,
+    });
+  }
+
+  /**
+   * Languages with a working local toolchain
+   */
+  getAvailableLanguages(): SandboxLanguage[] {
+    return this.config.languages.filter((language) => this.availableLanguages.has(language));
+  }
+
+  /**
+   * Write source to a fresh work directory and compile it
+   */
+  async prepare(language: SandboxLanguage, source: string): Promise<PreparedProgram> {
+    const toolchain = TOOLCHAINS[language];
+    const baseDir = this.config.workDir || os.tmpdir();
+    await fs.mkdir(baseDir, { recursive: true });
+    const workDir = await fs.mkdtemp(path.join(baseDir, `cqv-${language}-`));
+
+    const sourceFile = toolchain.sourceFile(source);
+    await fs.writeFile(path.join(workDir, sourceFile), source, 'utf-8');
+
+    const result = await this.exec(toolchain.compile(sourceFile, this.config), {
+      cwd: workDir,
+      timeoutMs: this.config.compileTimeoutMs,
+      isolate: true,
+    });
+
+    const compiled = result.exitCode === 0 && !result.timedOut;
+    return {
+      language,
+      workDir,
+      compiled,
+      compileOutput: result.timedOut
+        ? `Compilation exceeded ${this.config.compileTimeoutMs}ms`
+        : (result.stderr || result.stdout).trim(),
+      runCommand: toolchain.run(sourceFile, this.config),
+    };
+  }
+
+  /**
+   * Run a prepared program with the given stdin
+   */
+  async run(program: PreparedProgram, stdin: string): Promise<ProcessResult> {
+    if (!program.compiled) {
+      throw new Error(`Cannot run ${program.language} program that failed to compile`);
+    }
+
+    return this.exec(program.runCommand, {
+      cwd: program.workDir,
+      timeoutMs: this.config.runTimeoutMs,
+      stdin,
+      isolate: true,
+      limitVirtualMemory: TOOLCHAINS[program.language].limitVirtualMemory,
+    });
+  }
+
+  /**
+   * Remove a prepared program's work directory
+   */
+  async cleanup(program: PreparedProgram): Promise<void> {
+    try {
+      await fs.rm(program.workDir, { recursive: true, force: true });
+    } catch (error) {
+      logger.warn('Failed to clean up sandbox directory', {
+        workDir: program.workDir,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Spawn a command with resource limits applied
+   */
+  private exec(
+    command: string[],
+    options: {
+      cwd: string;
+      timeoutMs: number;
+      stdin?: string;
+      isolate: boolean;
+      limitVirtualMemory?: boolean;
+    }
+  ): Promise<ProcessResult> {
+    const limits = [
+      `ulimit -f ${Math.ceil(this.config.maxOutputBytes / 1024) + 1024}`, // File size (KB)
+      'ulimit -c 0', // No core dumps
+    ];
+    if (options.limitVirtualMemory) {
+      limits.push(`ulimit -v ${this.config.memoryLimitMb * 1024}`);
+    }
+
+    const argv = ['/bin/sh', '-c', `${limits.join('; ')}; exec "$@"`, 'sandbox', ...command];
+    if (options.isolate && this.config.networkIsolation) {
+      argv.unshift('unshare', '--net', '--map-root-user');
+    }
+
+    return new Promise((resolve) => {
+      const child = spawn(argv[0], argv.slice(1), {
+        cwd: options.cwd,
+        detached: true, // Own process group so the whole tree can be killed
+        env: {
+          PATH: process.env.PATH || '/usr/local/bin:/usr/bin:/bin',
+          HOME: options.cwd,
+          LANG: 'C.UTF-8',
+        },
+        stdio: ['pipe', 'pipe', 'pipe'],
+      });
+
+      let stdout = '';
+      let stderr = '';
+      let outputBytes = 0;
+      let timedOut = false;
+      let outputLimitExceeded = false;
+
+      const killTree = () => {
+        try {
+          if (child.pid) {
+            process.kill(-child.pid, 'SIGKILL');
+          }
+        } catch {
+          // Process already exited
+        }
+      };
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        killTree();
+      }, options.timeoutMs);
+
+      const collect = (target: 'stdout' | 'stderr') => (chunk: Buffer) => {
+        outputBytes += chunk.length;
+        if (outputBytes > this.config.maxOutputBytes) {
+          outputLimitExceeded = true;
+          killTree();
+          return;
+        }
+        if (target === 'stdout') {
+          stdout += chunk.toString('utf-8');
+        } else {
+          stderr += chunk.toString('utf-8');
+        }
+      };
+
+      child.stdout.on('data', collect('stdout'));
+      child.stderr.on('data', collect('stderr'));
+
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        resolve({
+          stdout,
+          stderr: error.message,
+          exitCode: null,
+          signal: null,
+          timedOut,
+          outputLimitExceeded,
+        });
+      });
+
+      child.on('close', (exitCode, signal) => {
+        clearTimeout(timer);
+        resolve({ stdout, stderr, exitCode, signal, timedOut, outputLimitExceeded });
+      });
+
+      // Programs may exit without reading stdin; ignore EPIPE
+      child.stdin.on('error', () => undefined);
+      child.stdin.end(options.stdin ?? '');
+    });
+  }
+}
@@ -1,10 +1,35 @@
 import { CodingQuestion, LanguageCode, TestCase } from '../models/CodingQuestion';
 import { logger } from './Logger';
+import { MigrationRunner } from '../migrations';
 
 /**
  * Data Transformer - Converts missing.json documents to valid schema format
  */
 export class DataTransformer {
+  private static readonly migrationRunner = new MigrationRunner();
+
+  /**
+   * Default starter templates used when a language is missing
+   */
+  static readonly DEFAULT_STARTER_TEMPLATES: LanguageCode = {
+    c: '#include <stdio.h>\n\nint main() {\n    // Write your code here\n    return 0;\n}\n',
+    cpp: '#include <bits/stdc++.h>\nusing namespace std;\n\nint main() {\n    // Write your code here\n    return 0;\n}\n',
+    java: 'import java.util.*;\n\npublic class Main {\n    public static void main(String[] args) {\n        // Write your code here\n    }\n}\n',
+    javascript: 'function solve() {\n    // Write your code here\n}\n\nsolve();\n',
+    python: 'def solve():\n    # Write your code here\n    pass\n\nsolve()\n',
+  };
+
+  /**
+   * Default solution placeholders used when a language is missing
+   */
+  static readonly DEFAULT_SOLUTION_TEMPLATES: LanguageCode = {
+    c: '// Solution code to be implemented\n',
+    cpp: '// Solution code to be implemented\n',
+    java: '// Solution code to be implemented\n',
+    javascript: '// Solution code to be implemented\n',
+    python: '# Solution code to be implemented\n',
+  };
+
   /**
    * Transform a raw document from missing.json to valid CodingQuestion format
    */
@@ -56,7 +81,9 @@ export class DataTransformer {
         outputFormat: outputFormat,
       };
 
-      return transformed;
+      // Imported documents have the base (v1) shape; migrate them so the
+      // current schema_version is recorded
+      return this.migrationRunner.migrate(transformed).document;
     } catch (error) {
       logger.error('Failed to transform document', {
         index,
@@ -141,26 +168,12 @@ export class DataTransformer {
    * Ensure all 5 required languages are present in code object
    */
   private static ensureAllLanguages(codeObj: any, type: 'starter' | 'solution'): LanguageCode {
-    const defaultStarterTemplates: LanguageCode = {
-      c: '#include <stdio.h>\n\nint main() {\n    // Write your code here\n    return 0;\n}\n',
-      cpp: '#include <bits/stdc++.h>\nusing namespace std;\n\nint main() {\n    // Write your code here\n    return 0;\n}\n',
-      java: 'import java.util.*;\n\npublic class Main {\n    public static void main(String[] args) {\n        // Write your code here\n    }\n}\n',
-      javascript: 'function solve() {\n    // Write your code here\n}\n\nsolve();\n',
-      python: 'def solve():\n    # Write your code here\n    pass\n\nsolve()\n',
-    };
-
-    const defaultSolutionTemplates: LanguageCode = {
-      c: '// Solution code to be implemented\n',
-      cpp: '// Solution code to be implemented\n',
-      java: '// Solution code to be implemented\n',
-      javascript: '// Solution code to be implemented\n',
-      python: '# Solution code to be implemented\n',
-    };
-
-    const defaults = type === 'starter' ? defaultStarterTemplates : defaultSolutionTemplates;
+    const defaults = type === 'starter'
+      ? this.DEFAULT_STARTER_TEMPLATES
+      : this.DEFAULT_SOLUTION_TEMPLATES;
 
     if (!codeObj || typeof codeObj !== 'object') {
-      return defaults;
+      return { ...defaults };
     }
 
     return {
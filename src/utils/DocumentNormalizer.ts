@@ -1,132 +1,72 @@
 import { logger } from './Logger';
+import { NormalizationChange, describeNormalizationChange } from '../models/NormalizationChange';
+import { BUILT_IN_STEPS, NormalizationStep } from './normalization';
 
 /**
- * Document Normalizer - Pre-processes documents to fix common issues before validation
+ * Options for one normalization run
+ */
+export interface NormalizationOptions {
+  disabledSteps?: string[]; // Step ids to skip
+}
+
+/**
+ * Normalized document with the change log of the run
+ */
+export interface NormalizationResult {
+  document: any;
+  changes: NormalizationChange[];
+}
+
+/**
+ * Document Normalizer - Pre-processes documents to fix common issues before
+ * validation by running an ordered pipeline of named steps
  */
 export class DocumentNormalizer {
   /**
    * Normalize a coding question document
    */
-  static normalize(document: any): any {
-    const normalized = { ...document };
+  static normalize(document: any, options: NormalizationOptions = {}): any {
+    return this.run(document, options).document;
+  }
 
-    try {
-      // Normalize difficulty (case-insensitive to proper case)
-      normalized.difficulty = this.normalizeDifficulty(normalized.difficulty);
+  /**
+   * Normalize a document and report every change, tagged with its step id
+   */
+  static run(document: any, options: NormalizationOptions = {}): NormalizationResult {
+    const normalized = { ...document };
+    const changes: NormalizationChange[] = [];
+    const disabled = new Set(options.disabledSteps || []);
 
-      // Normalize slug (ensure lowercase-with-hyphens)
-      if (normalized.title && !normalized.slug) {
-        normalized.slug = this.generateSlug(normalized.title);
-      } else if (normalized.slug) {
-        normalized.slug = this.normalizeSlug(normalized.slug);
+    for (const step of this.getSteps()) {
+      if (disabled.has(step.id)) {
+        continue;
       }
-
-      // Remove MongoDB _id from nested objects (clean up)
-      if (normalized.testCases && Array.isArray(normalized.testCases)) {
-        normalized.testCases = normalized.testCases.map((tc: any) => {
-          const { _id, ...rest } = tc;
-          return rest;
+      try {
+        step.apply(normalized).forEach((change) => changes.push({ step: step.id, ...change }));
+      } catch (error) {
+        logger.error('Normalization step failed', {
+          step: step.id,
+          questionId: normalized.question_id,
+          error: (error as Error).message,
         });
       }
+    }
 
-      // Ensure question_id exists (use _id if missing)
-      if (!normalized.question_id && normalized._id) {
-        normalized.question_id = normalized._id.toString();
-      }
-
-      // Clean up extra whitespace in strings
-      if (normalized.content) {
-        normalized.content = normalized.content.trim();
-      }
-
-      // Ensure arrays exist (don't send null/undefined)
-      if (!normalized.topic_tags || !Array.isArray(normalized.topic_tags)) {
-        normalized.topic_tags = [];
-      }
-      if (!normalized.constraints || !Array.isArray(normalized.constraints)) {
-        normalized.constraints = [];
-      }
-      if (!normalized.testCases || !Array.isArray(normalized.testCases)) {
-        normalized.testCases = [];
-      }
-
+    if (changes.length > 0) {
       logger.debug('Document normalized', {
         questionId: normalized.question_id,
-        changes: this.getChanges(document, normalized),
+        changes: changes.map(describeNormalizationChange),
       });
-
-      return normalized;
-    } catch (error) {
-      logger.error('Failed to normalize document', {
-        error: (error as Error).message,
-      });
-      return document; // Return original if normalization fails
-    }
-  }
-
-  /**
-   * Normalize difficulty to proper case
-   */
-  private static normalizeDifficulty(difficulty: any): string {
-    if (typeof difficulty !== 'string') {
-      return 'Medium'; // Default
     }
 
-    const lower = difficulty.toLowerCase();
-    switch (lower) {
-      case 'easy':
-        return 'Easy';
-      case 'medium':
-        return 'Medium';
-      case 'hard':
-        return 'Hard';
-      default:
-        return difficulty; // Keep as-is if unrecognized
-    }
+    return { document: normalized, changes };
   }
 
   /**
-   * Generate slug from title
+   * Steps in the order they run
    */
-  private static generateSlug(title: string): string {
-    return title
-      .toLowerCase()
-      .trim()
-      .replace(/[^a-z0-9\s-]/g, '') // Remove special chars
-      .replace(/\s+/g, '-') // Replace spaces with hyphens
-      .replace(/-+/g, '-') // Collapse multiple hyphens
-      .replace(/^-|-$/g, ''); // Remove leading/trailing hyphens
-  }
-
-  /**
-   * Normalize existing slug
-   */
-  private static normalizeSlug(slug: string): string {
-    return slug
-      .toLowerCase()
-      .trim()
-      .replace(/[^a-z0-9-]/g, '') // Remove invalid chars
-      .replace(/-+/g, '-') // Collapse multiple hyphens
-      .replace(/^-|-$/g, ''); // Remove leading/trailing hyphens
-  }
-
-  /**
-   * Get list of changes made during normalization
-   */
-  private static getChanges(original: any, normalized: any): string[] {
-    const changes: string[] = [];
-
-    if (original.difficulty !== normalized.difficulty) {
-      changes.push(`difficulty: ${original.difficulty} → ${normalized.difficulty}`);
-    }
-    if (original.slug !== normalized.slug) {
-      changes.push(`slug: ${original.slug} → ${normalized.slug}`);
-    }
-    if (!original.question_id && normalized.question_id) {
-      changes.push(`question_id: added from _id`);
-    }
-
-    return changes;
+  static getSteps(): NormalizationStep[] {
+    return BUILT_IN_STEPS;
   }
 
   /**
@@ -0,0 +1,94 @@
+import fs from 'fs/promises';
+import { DuplicateCluster, DuplicateReport } from '../validators/DuplicateDetector';
+import { logger } from './Logger';
+
+/**
+ * Duplicate Report Manager - Writes the duplicate-cluster report of a scan
+ */
+export class DuplicateReportManager {
+  private reportPath: string;
+
+  constructor(reportPath: string) {
+    this.reportPath = reportPath;
+  }
+
+  /**
+   * Write the report, replacing the one from the previous scan
+   */
+  async writeReport(report: DuplicateReport): Promise<void> {
+    try {
+      await fs.writeFile(this.reportPath, this.generateReport(report), 'utf-8');
+      logger.info('Duplicate report written', {
+        path: this.reportPath,
+        clusters: report.stats.clusters,
+      });
+    } catch (error) {
+      logger.error('Failed to write duplicate report', {
+        path: this.reportPath,
+        error: (error as Error).message,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Generate the markdown report
+   */
+  private generateReport(report: DuplicateReport): string {
+    const { stats } = report;
+    const lines = [
+      '# Duplicate Questions Report',
+      '',
+      `Generated: ${new Date().toISOString()}`,
+      '',
+      'Documents that share a slug, question_id or title, or whose description and test cases are near-identical. Each cluster suggests a canonical document to keep; review the others before merging or deleting them.',
+      '',
+      '## Summary',
+      '',
+      `- **Documents checked**: ${stats.documentsChecked}`,
+      `- **Clusters**: ${stats.clusters} (${stats.documentsInClusters} documents)`,
+      `- **Exact slug groups**: ${stats.exactSlugGroups}`,
+      `- **Exact question_id groups**: ${stats.exactQuestionIdGroups}`,
+      `- **Exact title groups**: ${stats.exactTitleGroups}`,
+      `- **Near-duplicate pairs**: ${stats.nearDuplicatePairs}`,
+      '',
+    ];
+
+    report.clusters.forEach((cluster, index) => {
+      lines.push(...this.generateCluster(cluster, index + 1));
+    });
+
+    return lines.join('\n');
+  }
+
+  private generateCluster(cluster: DuplicateCluster, number: number): string[] {
+    const lines = [
+      `## Cluster ${number}`,
+      '',
+      `**Suggested canonical**: \`${cluster.canonical.documentId}\` (${cluster.canonical.slug})`,
+      '',
+      '| Document | question_id | Slug | Title | Test Cases | Valid |',
+      '|----------|-------------|------|-------|------------|-------|',
+    ];
+
+    cluster.members.forEach((member) => {
+      const marker = member === cluster.canonical ? ' (canonical)' : '';
+      lines.push(
+        `| \`${member.documentId}\`${marker} | ${escapeCell(member.questionId)} | ${escapeCell(member.slug)} | ${escapeCell(member.title)} | ${member.testCaseCount} | ${member.isValid ? 'yes' : 'no'} |`
+      );
+    });
+
+    lines.push('', '**Matches:**', '');
+    cluster.links.forEach((link) => {
+      const detail = link.reason === 'content' ? `similar content (${link.similarity})` : `same ${link.reason}`;
+      lines.push(`- \`${link.a}\` and \`${link.b}\`: ${detail}`);
+    });
+    lines.push('');
+
+    return lines;
+  }
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
@@ -0,0 +1,154 @@
+/**
+ * Input Generator - Derives extra stdin inputs from stored test case inputs
+ *
+ * Generated inputs keep the shape of a seed input (line count, count lines
+ * that announce the length of the following line) and only draw values from
+ * the range observed across the stored inputs, so they stay within what the
+ * problem already accepts.
+ */
+export class InputGenerator {
+  /**
+   * Generate up to `count` new inputs from the seed inputs
+   */
+  static generate(seedInputs: string[], count: number, seed: number = 42): string[] {
+    const seeds = seedInputs.filter((input) => input.trim().length > 0);
+    if (seeds.length === 0 || count <= 0) {
+      return [];
+    }
+
+    const random = this.createRandom(seed);
+    const range = this.observedRange(seeds);
+    const existing = new Set(seeds.map((input) => input.trim()));
+    const generated: string[] = [];
+
+    // Bounded number of attempts so tiny value ranges cannot loop forever
+    for (let attempt = 0; attempt < count * 5 && generated.length < count; attempt++) {
+      const base = seeds[attempt % seeds.length];
+      const strategy = attempt % 3;
+      const candidate = this.mutate(base, strategy, range, random);
+
+      if (candidate && !existing.has(candidate.trim())) {
+        existing.add(candidate.trim());
+        generated.push(candidate);
+      }
+    }
+
+    return generated;
+  }
+
+  /**
+   * Mutate a seed input using one of the strategies:
+   * 0 = random values, 1 = boundary values, 2 = shrink counted lines to one element
+   */
+  private static mutate(
+    input: string,
+    strategy: number,
+    range: { min: number; max: number } | null,
+    random: () => number
+  ): string | null {
+    const lines = input.replace(/\r\n/g, '\n').replace(/\n+$/, '').split('\n');
+    const tokens = lines.map((line) => line.trim().split(/\s+/).filter((t) => t.length > 0));
+    const countLines = this.findCountLines(tokens);
+
+    if (strategy === 2) {
+      if (countLines.size === 0) {
+        return null;
+      }
+      countLines.forEach((index) => {
+        tokens[index] = ['1'];
+        tokens[index + 1] = tokens[index + 1].slice(0, 1);
+      });
+      return this.render(tokens);
+    }
+
+    if (!range) {
+      return null;
+    }
+
+    const mutated = tokens.map((lineTokens, lineIndex) => {
+      if (countLines.has(lineIndex)) {
+        return lineTokens;
+      }
+      return lineTokens.map((token) => {
+        if (!/^-?\d+$/.test(token)) {
+          return token;
+        }
+        if (strategy === 1) {
+          return String(random() < 0.5 ? range.min : range.max);
+        }
+        return String(range.min + Math.floor(random() * (range.max - range.min + 1)));
+      });
+    });
+
+    return this.render(mutated);
+  }
+
+  /**
+   * Lines holding a single integer equal to the token count of the next line
+   */
+  private static findCountLines(tokens: string[][]): Set<number> {
+    const countLines = new Set<number>();
+    for (let i = 0; i < tokens.length - 1; i++) {
+      if (
+        tokens[i].length === 1 &&
+        /^\d+$/.test(tokens[i][0]) &&
+        parseInt(tokens[i][0], 10) === tokens[i + 1].length &&
+        tokens[i + 1].length > 0
+      ) {
+        countLines.add(i);
+      }
+    }
+    return countLines;
+  }
+
+  /**
+   * Smallest and largest integer value seen outside count lines
+   */
+  private static observedRange(inputs: string[]): { min: number; max: number } | null {
+    let min = Infinity;
+    let max = -Infinity;
+
+    inputs.forEach((input) => {
+      const tokens = input
+        .trim()
+        .split('\n')
+        .map((line) => line.trim().split(/\s+/).filter((t) => t.length > 0));
+      const countLines = this.findCountLines(tokens);
+
+      tokens.forEach((lineTokens, lineIndex) => {
+        if (countLines.has(lineIndex)) {
+          return;
+        }
+        lineTokens.forEach((token) => {
+          if (/^-?\d+$/.test(token)) {
+            const value = parseInt(token, 10);
+            if (Number.isSafeInteger(value)) {
+              min = Math.min(min, value);
+              max = Math.max(max, value);
+            }
+          }
+        });
+      });
+    });
+
+    return min === Infinity ? null : { min, max };
+  }
+
+  private static render(tokens: string[][]): string {
+    return tokens.map((lineTokens) => lineTokens.join(' ')).join('\n') + '\n';
+  }
+
+  /**
+   * Deterministic PRNG (mulberry32) so runs are reproducible
+   */
+  private static createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Kind of markup left in a plain-text field
+ */
+export type MarkupKind = 'html' | 'latex' | 'markdown';
+
+/**
+ * A markup artifact found in text
+ */
+export interface MarkupArtifact {
+  kind: MarkupKind;
+  match: string;
+}
+
+/**
+ * One kind of replacement made by the converter, with how often it applied
+ */
+export interface MarkupChange {
+  kind: MarkupKind;
+  from: string;
+  to: string;
+  count: number;
+}
+
+/**
+ * Options for fields that use Markdown code fences by convention
+ * (inputFormat/outputFormat): Markdown is neither detected nor converted
+ */
+export interface MarkupOptions {
+  markdown: boolean;
+}
+
+const HTML_TAG = /<\/?(?:p|br|hr|code|pre|strong|em|b|i|u|s|sup|sub|ul|ol|li|div|span|img|a|font|h[1-6]|table|thead|tbody|tr|td|th|blockquote)\b[^<>]*\/?>/gi;
+const LATEX_DELIMITER = /\$\$|\\\(|\\\)|\\\[|\\\]|\$(?=[^$\n]*[\\^_{}<>=][^$\n]*\$)/g;
+const LATEX_GROUP = /[\^_]\{[^{}]*\}/g;
+const MARKDOWN_PATTERNS: RegExp[] = [
+  /\*\*[^*\n]+\*\*/g, // **bold**
+  /__[^_\n]+__/g, // __bold__
+  /`[^`\n]+`/g, // `inline code`
+  /^#{1,6}\s+\S.*$/gm, // # heading
+  /^```/gm, // code fence
+];
+
+/**
+ * HTML entities and their plain-text replacements
+ */
+const ENTITIES: Record<string, string> = {
+  '&nbsp;': ' ',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&le;': '<=',
+  '&ge;': '>=',
+  '&ne;': '!=',
+  '&amp;': '&',
+  '&quot;': '"',
+  '&apos;': "'",
+  '&#39;': "'",
+  '&times;': '*',
+  '&middot;': '*',
+  '&minus;': '-',
+  '&hellip;': '...',
+};
+
+/**
+ * LaTeX commands and their plain-text replacements ("10^5", "<=", "*")
+ */
+const LATEX_COMMANDS: Record<string, string> = {
+  '\\leq': '<=',
+  '\\le': '<=',
+  '\\geq': '>=',
+  '\\ge': '>=',
+  '\\neq': '!=',
+  '\\ne': '!=',
+  '\\lt': '<',
+  '\\gt': '>',
+  '\\times': '*',
+  '\\cdot': '*',
+  '\\ldots': '...',
+  '\\cdots': '...',
+  '\\dots': '...',
+  '\\left': '',
+  '\\right': '',
+  '\\,': ' ',
+};
+
+/**
+ * Other LaTeX commands found in imported questions; only known commands are
+ * reported, so escapes ("\r\n"), regexes ("\d+") and paths are not LaTeX
+ */
+const OTHER_LATEX_COMMANDS = [
+  'text', 'mathrm', 'mathbf', 'mathit', 'texttt', 'operatorname',
+  'frac', 'dfrac', 'tfrac', 'sqrt', 'binom', 'displaystyle', 'quad', 'qquad',
+  'sum', 'prod', 'log', 'ln', 'min', 'max', 'mod', 'bmod', 'pmod',
+  'lfloor', 'rfloor', 'lceil', 'rceil', 'lvert', 'rvert', 'vert', 'mid',
+  'infty', 'pm', 'in', 'notin', 'subset', 'subseteq', 'cup', 'cap',
+  'forall', 'exists', 'to', 'rightarrow', 'leftarrow', 'Rightarrow', 'equiv', 'approx',
+  'oplus', 'land', 'lor', 'neg', 'alpha', 'beta', 'gamma', 'delta', 'epsilon', 'lambda', 'sigma', 'pi',
+];
+
+const HTML_ENTITY = new RegExp(
+  `&(?:${Object.keys(ENTITIES)
+    .filter((entity) => !entity.startsWith('&#'))
+    .map((entity) => entity.slice(1, -1))
+    .join('|')}|#\\d+|#x[0-9a-f]+);`,
+  'gi'
+);
+const LATEX_COMMAND = new RegExp(
+  `\\\\(?:${[
+    ...Object.keys(LATEX_COMMANDS)
+      .filter((command) => /^\\[a-z]+$/i.test(command))
+      .map((command) => command.slice(1)),
+    ...OTHER_LATEX_COMMANDS,
+  ].join('|')})(?![a-zA-Z])`,
+  'g'
+);
+
+/**
+ * Markup Converter - Detects HTML, LaTeX and Markdown artifacts in
+ * plain-text fields and converts the common ones to our plain-text
+ * conventions ("10^5", "<=", "nums[i]")
+ */
+export class MarkupConverter {
+  /**
+   * Find markup artifacts, without duplicates
+   */
+  static detect(text: string, options: MarkupOptions = { markdown: true }): MarkupArtifact[] {
+    const artifacts: MarkupArtifact[] = [];
+    const add = (kind: MarkupKind, matches: RegExpMatchArray | null) => {
+      (matches || []).forEach((match) => {
+        if (!artifacts.some((artifact) => artifact.kind === kind && artifact.match === match)) {
+          artifacts.push({ kind, match });
+        }
+      });
+    };
+
+    add('html', text.match(HTML_TAG));
+    add('html', text.match(HTML_ENTITY));
+    add('latex', text.match(LATEX_DELIMITER));
+    add('latex', text.match(LATEX_COMMAND));
+    add('latex', text.match(LATEX_GROUP));
+    if (options.markdown) {
+      MARKDOWN_PATTERNS.forEach((pattern) => add('markdown', text.match(pattern)));
+    }
+
+    return artifacts;
+  }
+
+  /**
+   * Convert common markup to plain text and report every kind of replacement
+   */
+  static convert(
+    text: string,
+    options: MarkupOptions = { markdown: true }
+  ): { text: string; changes: MarkupChange[] } {
+    const changes: MarkupChange[] = [];
+    const replace = (kind: MarkupKind, pattern: RegExp, to: string | ((...args: string[]) => string)) => {
+      text = text.replace(pattern, (...args: any[]) => {
+        const from = args[0] as string;
+        const replacement = typeof to === 'string' ? to : to(...args);
+        const existing = changes.find(
+          (change) => change.kind === kind && change.from === from && change.to === replacement
+        );
+        if (existing) {
+          existing.count++;
+        } else {
+          changes.push({ kind, from, to: replacement, count: 1 });
+        }
+        return replacement;
+      });
+    };
+
+    // HTML: structure first, then inline tags, then entities
+    replace('html', /<br\s*\/?>/gi, '\n');
+    replace('html', /<\/p>\s*<p\b[^>]*>/gi, '\n\n');
+    replace('html', /<\/?p\b[^>]*>/gi, '\n');
+    replace('html', /<li\b[^>]*>/gi, '- ');
+    replace('html', /<\/li>/gi, '\n');
+    replace('html', /<sup>([^<]*)<\/sup>/gi, (_match, inner) => `^${inner}`);
+    replace('html', /<sub>([^<]*)<\/sub>/gi, (_match, inner) => `_${inner}`);
+    replace('html', /<\/?(?:code|pre|strong|em|b|i|u|s|span|font|ul|ol|div|blockquote)\b[^<>]*>/gi, '');
+    replace('html', /&(?:nbsp|lt|gt|le|ge|ne|amp|quot|apos|#39|times|middot|minus|hellip);/gi, (match) =>
+      ENTITIES[match.toLowerCase()]
+    );
+    replace('html', /&#(\d+);/g, (_match, code) => String.fromCharCode(parseInt(code, 10)));
+    replace('html', /&#x([0-9a-f]+);/gi, (_match, code) => String.fromCharCode(parseInt(code, 16)));
+
+    // LaTeX: commands with arguments, plain commands, groups, then delimiters
+    replace('latex', /\\(?:text|mathrm|mathbf|mathit|texttt|operatorname)\{([^{}]*)\}/g, (_match, inner) => inner);
+    replace('latex', /\\frac\{([^{}]*)\}\{([^{}]*)\}/g, (_match, a, b) => `${a}/${b}`);
+    replace('latex', /\\sqrt\{([^{}]*)\}/g, (_match, inner) => `sqrt(${inner})`);
+    replace('latex', /\\(?:leq?|geq?|neq?|lt|gt|times|cdot|ldots|cdots|dots|left|right)\b|\\,/g, (match) =>
+      LATEX_COMMANDS[match]
+    );
+    replace('latex', /([\^_])\{([^{}]*)\}/g, (_match, op, inner) =>
+      /^\w+$/.test(inner) ? `${op}${inner}` : `${op}(${inner})`
+    );
+    replace('latex', /\$\$([\s\S]*?)\$\$/g, (_match, inner) => inner.trim());
+    replace('latex', /\$([^$\n]*[\\^_{}<>=][^$\n]*)\$/g, (_match, inner) => inner.trim());
+
+    // Markdown emphasis, inline code and headings (not code fences)
+    if (options.markdown) {
+      replace('markdown', /\*\*([^*\n]+)\*\*/g, (_match, inner) => inner);
+      replace('markdown', /__([^_\n]+)__/g, (_match, inner) => inner);
+      replace('markdown', /`([^`\n]+)`/g, (_match, inner) => inner);
+      replace('markdown', /^#{1,6}\s+/gm, '');
+    }
+
+    // Tidy whitespace left behind by removed tags
+    if (changes.length > 0) {
+      text = text
+        .replace(/[ \t]+\n/g, '\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+    }
+
+    return { text, changes };
+  }
+}
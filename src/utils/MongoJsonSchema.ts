@@ -0,0 +1,203 @@
+import { z } from 'zod';
+import { stableStringify } from './StableStringify';
+
+/**
+ * A MongoDB $jsonSchema node (subset of draft 4 with bsonType)
+ */
+export type MongoJsonSchema = { [keyword: string]: any };
+
+/**
+ * One difference between two $jsonSchema documents
+ */
+export interface JsonSchemaDifference {
+  path: string; // Dotted keyword path, e.g. "properties.slug.pattern"
+  change: 'added' | 'removed' | 'changed';
+  installed?: any;
+  generated?: any;
+}
+
+/**
+ * Mongo JSON Schema - Converts Zod schemas into MongoDB $jsonSchema
+ * collection validators and compares validators
+ */
+export class MongoJsonSchemaConverter {
+  /**
+   * Convert a Zod schema into a $jsonSchema node.
+   * Throws on Zod types that have no $jsonSchema equivalent so a
+   * collection validator never silently drops a rule.
+   */
+  static fromZod(schema: z.ZodTypeAny): MongoJsonSchema {
+    const node = this.convert(schema);
+    if (schema.description) {
+      node.description = schema.description;
+    }
+    return node;
+  }
+
+  /**
+   * Compare an installed validator with a generated one
+   */
+  static diff(installed: any, generated: any, path: string = ''): JsonSchemaDifference[] {
+    if (isPlainObject(installed) && isPlainObject(generated)) {
+      const keys = Array.from(new Set([...Object.keys(installed), ...Object.keys(generated)])).sort();
+      return keys.flatMap((key) => {
+        const childPath = path ? `${path}.${key}` : key;
+        if (!(key in installed)) {
+          return [{ path: childPath, change: 'added' as const, generated: generated[key] }];
+        }
+        if (!(key in generated)) {
+          return [{ path: childPath, change: 'removed' as const, installed: installed[key] }];
+        }
+        return this.diff(installed[key], generated[key], childPath);
+      });
+    }
+
+    if (stableStringify(installed) === stableStringify(generated)) {
+      return [];
+    }
+    return [{ path: path || '(root)', change: 'changed', installed, generated }];
+  }
+
+  private static convert(schema: z.ZodTypeAny): MongoJsonSchema {
+    if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault) {
+      return this.fromZod(schema._def.innerType);
+    }
+    if (schema instanceof z.ZodNullable) {
+      return { anyOf: [this.fromZod(schema._def.innerType), { bsonType: 'null' }] };
+    }
+    if (schema instanceof z.ZodEffects) {
+      return this.fromZod(schema._def.schema);
+    }
+    if (schema instanceof z.ZodObject) {
+      return this.convertObject(schema);
+    }
+    if (schema instanceof z.ZodString) {
+      return this.convertString(schema);
+    }
+    if (schema instanceof z.ZodNumber) {
+      return this.convertNumber(schema);
+    }
+    if (schema instanceof z.ZodBoolean) {
+      return { bsonType: 'bool' };
+    }
+    if (schema instanceof z.ZodArray) {
+      const node: MongoJsonSchema = { bsonType: 'array', items: this.fromZod(schema._def.type) };
+      if (schema._def.minLength) {
+        node.minItems = schema._def.minLength.value;
+      }
+      if (schema._def.maxLength) {
+        node.maxItems = schema._def.maxLength.value;
+      }
+      return node;
+    }
+    if (schema instanceof z.ZodEnum) {
+      return { bsonType: 'string', enum: [...schema._def.values] };
+    }
+    if (schema instanceof z.ZodLiteral) {
+      return { enum: [schema._def.value] };
+    }
+    if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion) {
+      const options: z.ZodTypeAny[] = Array.from(schema._def.options);
+      return { anyOf: options.map((option) => this.fromZod(option)) };
+    }
+    if (schema instanceof z.ZodRecord) {
+      return { bsonType: 'object', additionalProperties: this.fromZod(schema._def.valueType) };
+    }
+    if (schema instanceof z.ZodAny || schema instanceof z.ZodUnknown) {
+      return {};
+    }
+
+    throw new Error(`Unsupported Zod type for $jsonSchema: ${schema._def.typeName}`);
+  }
+
+  /**
+   * Objects list every property; `.strict()` becomes additionalProperties: false
+   */
+  private static convertObject(schema: z.AnyZodObject): MongoJsonSchema {
+    const properties: Record<string, MongoJsonSchema> = {};
+    const required: string[] = [];
+
+    Object.entries(schema.shape as Record<string, z.ZodTypeAny>).forEach(([key, value]) => {
+      properties[key] = this.fromZod(value);
+      if (!value.isOptional()) {
+        required.push(key);
+      }
+    });
+
+    const node: MongoJsonSchema = { bsonType: 'object' };
+    if (required.length > 0) {
+      node.required = required;
+    }
+    node.properties = properties;
+    if (schema._def.unknownKeys === 'strict') {
+      node.additionalProperties = false;
+    }
+    return node;
+  }
+
+  private static convertString(schema: z.ZodString): MongoJsonSchema {
+    const node: MongoJsonSchema = { bsonType: 'string' };
+
+    schema._def.checks.forEach((check) => {
+      switch (check.kind) {
+        case 'min':
+          node.minLength = check.value;
+          break;
+        case 'max':
+          node.maxLength = check.value;
+          break;
+        case 'length':
+          node.minLength = check.value;
+          node.maxLength = check.value;
+          break;
+        case 'regex':
+          node.pattern = check.regex.source;
+          if (check.message) {
+            node.description = check.message;
+          }
+          break;
+        default:
+          throw new Error(`Unsupported string check for $jsonSchema: ${check.kind}`);
+      }
+    });
+
+    return node;
+  }
+
+  /**
+   * Integers may be stored as int, long or (from mongosh and other tools)
+   * whole-valued double, so int() is checked with multipleOf
+   */
+  private static convertNumber(schema: z.ZodNumber): MongoJsonSchema {
+    const node: MongoJsonSchema = { bsonType: ['int', 'long', 'double', 'decimal'] };
+
+    schema._def.checks.forEach((check) => {
+      switch (check.kind) {
+        case 'int':
+          node.bsonType = ['int', 'long', 'double'];
+          node.multipleOf = 1;
+          break;
+        case 'min':
+          node.minimum = check.value;
+          if (!check.inclusive) {
+            node.exclusiveMinimum = true;
+          }
+          break;
+        case 'max':
+          node.maximum = check.value;
+          if (!check.inclusive) {
+            node.exclusiveMaximum = true;
+          }
+          break;
+        default:
+          throw new Error(`Unsupported number check for $jsonSchema: ${check.kind}`);
+      }
+    });
+
+    return node;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,169 @@
+import { BSON, Document, Filter, ObjectId } from 'mongodb';
+import { TagTaxonomy } from './TagTaxonomy';
+
+/**
+ * Restrictions for one scan; all given restrictions must match
+ */
+export interface ScanFilterOptions {
+  query?: Filter<Document>; // Raw MongoDB filter
+  ids?: string[]; // Each value is matched as _id, question_id or slug
+  difficulties?: string[];
+  tags?: string[]; // Canonical tags or synonyms
+  knownTags?: string[]; // topic_tags values in the collection, matched to tags through the taxonomy
+  since?: Date;
+  until?: Date; // Exclusive
+  timeField?: string; // Field compared with since/until; "_id" uses the ObjectId timestamp
+}
+
+const DIFFICULTIES = ['Easy', 'Medium', 'Hard'];
+
+/**
+ * Scan Filter - Builds the MongoDB filter for a targeted scan. Difficulty
+ * and tag filters are case-insensitive and tolerate stray whitespace, since
+ * the documents being looked for are often the unnormalized ones.
+ */
+export class ScanFilter {
+  /**
+   * Build the filter; an empty object selects every document
+   */
+  static build(
+    options: ScanFilterOptions,
+    taxonomy: TagTaxonomy = TagTaxonomy.getDefault()
+  ): Filter<Document> {
+    const clauses: Filter<Document>[] = [];
+
+    if (options.query && Object.keys(options.query).length > 0) {
+      clauses.push(options.query);
+    }
+
+    if (options.ids && options.ids.length > 0) {
+      const objectIds = options.ids
+        .filter((id) => /^[0-9a-f]{24}$/i.test(id))
+        .map((id) => new ObjectId(id));
+      // Legacy documents may store question_id as a number
+      const questionIds = [
+        ...options.ids,
+        ...options.ids.filter((id) => /^\d+$/.test(id)).map((id) => parseInt(id, 10)),
+      ];
+      clauses.push({
+        $or: [
+          ...(objectIds.length > 0 ? [{ _id: { $in: objectIds } }] : []),
+          { question_id: { $in: questionIds } },
+          { slug: { $in: options.ids } },
+        ],
+      });
+    }
+
+    if (options.difficulties && options.difficulties.length > 0) {
+      const difficulties = options.difficulties.map((difficulty) => {
+        const known = DIFFICULTIES.find(
+          (name) => name.toLowerCase() === difficulty.trim().toLowerCase()
+        );
+        if (!known) {
+          throw new Error(
+            `Unknown difficulty "${difficulty}". Must be one of: ${DIFFICULTIES.join(', ')}`
+          );
+        }
+        return known;
+      });
+      clauses.push({ difficulty: { $in: difficulties.map(exactIgnoringCase) } });
+    }
+
+    if (options.tags && options.tags.length > 0) {
+      // A tag also matches its canonical spelling and every synonym
+      const spellings = new Map<string, string>(); // By lowercase, since matching ignores case
+      const add = (spelling: string) => spellings.set(spelling.trim().toLowerCase(), spelling.trim());
+      options.tags.forEach((tag) => {
+        add(tag);
+        const resolved = taxonomy.resolve(tag);
+        if (resolved) {
+          add(resolved.name);
+          taxonomy.getSynonyms(resolved.name).forEach(add);
+          // Stored spellings that resolve to the same tag ("dynamic-programming", typos)
+          (options.knownTags || [])
+            .filter((known) => taxonomy.resolve(known)?.name === resolved.name)
+            .forEach(add);
+        }
+      });
+      clauses.push({ topic_tags: { $in: Array.from(spellings.values()).map(exactIgnoringCase) } });
+    }
+
+    if (options.since || options.until) {
+      const field = options.timeField || '_id';
+      const bound = (date: Date) =>
+        field === '_id' ? ObjectId.createFromTime(Math.floor(date.getTime() / 1000)) : date;
+      clauses.push({
+        [field]: {
+          ...(options.since && { $gte: bound(options.since) }),
+          ...(options.until && { $lt: bound(options.until) }),
+        },
+      });
+    }
+
+    return this.combine(...clauses);
+  }
+
+  /**
+   * Filter matching documents that match all of the given filters
+   */
+  static combine(...filters: Filter<Document>[]): Filter<Document> {
+    const clauses = filters.filter((filter) => Object.keys(filter).length > 0);
+    if (clauses.length === 0) {
+      return {};
+    }
+    return clauses.length === 1 ? clauses[0] : { $and: clauses };
+  }
+
+  /**
+   * Parse a filter written as Extended JSON ({"_id": {"$oid": "..."}}, {"$date": "..."})
+   */
+  static parseQuery(json: string): Filter<Document> {
+    let query: unknown;
+    try {
+      query = BSON.EJSON.parse(json, { relaxed: true });
+    } catch (error) {
+      throw new Error(`Invalid filter JSON: ${(error as Error).message}`);
+    }
+    if (!query || typeof query !== 'object' || Array.isArray(query)) {
+      throw new Error('Filter must be a JSON object');
+    }
+    return query as Filter<Document>;
+  }
+
+  /**
+   * Parse an id list: one value per line or comma-separated; "#" starts a comment
+   */
+  static parseIdList(text: string): string[] {
+    return text
+      .split('\n')
+      .map((line) => line.replace(/#.*$/, ''))
+      .flatMap((line) => line.split(','))
+      .map((value) => value.trim())
+      .filter((value) => value.length > 0);
+  }
+
+  /**
+   * Parse a date or date-time (2026-10-12, 2026-10-12T08:00:00Z)
+   */
+  static parseDate(value: string): Date {
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      throw new Error(`Invalid date "${value}". Use YYYY-MM-DD or an ISO 8601 date-time`);
+    }
+    return date;
+  }
+
+  /**
+   * Filter as a string for logs and checkpoints
+   */
+  static describe(filter: Filter<Document>): string {
+    return BSON.EJSON.stringify(filter);
+  }
+}
+
+/**
+ * Case-insensitive exact match that ignores surrounding whitespace
+ */
+function exactIgnoringCase(value: string): RegExp {
+  return new RegExp(`^\\s*${value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*$`, 'i');
+}
@@ -0,0 +1,26 @@
+/**
+ * Options for stableStringify
+ */
+export interface StableStringifyOptions {
+  undefinedAsNull?: boolean; // Keep undefined properties as null, the way MongoDB stores them
+}
+
+/**
+ * JSON with sorted object keys, so key order does not count as a difference.
+ * Undefined properties are left out, as with JSON.stringify, unless
+ * `undefinedAsNull` is set.
+ */
+export function stableStringify(value: unknown, options: StableStringifyOptions = {}): string {
+  const json = value && typeof (value as any).toJSON === 'function' ? (value as any).toJSON() : value;
+  if (Array.isArray(json)) {
+    return `[${json.map((item) => stableStringify(item ?? null, options)).join(',')}]`;
+  }
+  if (json && typeof json === 'object') {
+    return `{${Object.keys(json)
+      .sort()
+      .filter((key) => options.undefinedAsNull || json[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(json[key] ?? null, options)}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(json);
+}
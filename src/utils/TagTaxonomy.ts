@@ -0,0 +1,254 @@
+import fs from 'fs';
+import { z } from 'zod';
+import defaultTaxonomy from '../config/topic-tags.json';
+import { ValidationConfig } from '../config/validation.config';
+import { logger } from './Logger';
+
+/**
+ * Tag taxonomy file schema: canonical tags with synonyms and a parent category
+ */
+export const TagTaxonomySchema = z.object({
+  categories: z.array(z.string().min(1)).min(1),
+  tags: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        parent: z.string().min(1),
+        synonyms: z.array(z.string().min(1)).default([]),
+      })
+    )
+    .min(1),
+});
+
+export type TagTaxonomyDefinition = z.infer<typeof TagTaxonomySchema>;
+
+/**
+ * How a tag was matched to a canonical tag
+ */
+export type TagMatch = 'canonical' | 'synonym' | 'typo';
+
+/**
+ * A tag replaced by its canonical tag
+ */
+export interface TagMapping {
+  index: number; // Position in the mapped array
+  from: string;
+  to: string;
+  match: TagMatch;
+}
+
+/**
+ * Result of mapping a document's tags
+ */
+export interface TagMappingResult {
+  tags: string[]; // Canonical tags in first-seen order, without duplicates; unknown tags kept as-is
+  changes: TagMapping[];
+  unmapped: string[];
+}
+
+/**
+ * Typos are only matched on keys at least this long, so "BS" never
+ * becomes "BST"
+ */
+const MIN_TYPO_KEY_LENGTH = 5;
+
+/**
+ * Tag Taxonomy - Controlled vocabulary for topic_tags. Tags are compared
+ * case- and punctuation-insensitively, so "dynamic-programming",
+ * "Dynamic Programming" and the synonym "DP" all resolve to the canonical
+ * "Dynamic Programming"; a single-character typo resolves when exactly one
+ * canonical tag is that close.
+ */
+export class TagTaxonomy {
+  private static defaultTaxonomy?: TagTaxonomy;
+
+  private canonicalByKey: Map<string, { name: string; match: TagMatch }> = new Map();
+  private categoryByTag: Map<string, string> = new Map();
+  private synonymsByTag: Map<string, string[]> = new Map();
+  private typoCache: Map<string, string | null> = new Map();
+
+  constructor(definition: TagTaxonomyDefinition) {
+    const parsed = TagTaxonomySchema.parse(definition);
+
+    parsed.tags.forEach((tag) => {
+      if (!parsed.categories.includes(tag.parent)) {
+        throw new Error(`Tag "${tag.name}" has unknown parent category "${tag.parent}"`);
+      }
+      this.categoryByTag.set(tag.name, tag.parent);
+      this.synonymsByTag.set(tag.name, tag.synonyms);
+      this.addKey(tag.name, tag.name, 'canonical');
+      tag.synonyms.forEach((synonym) => this.addKey(synonym, tag.name, 'synonym'));
+    });
+  }
+
+  /**
+   * Load a taxonomy file (JSON)
+   */
+  static load(filePath: string): TagTaxonomy {
+    try {
+      return new TagTaxonomy(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+    } catch (error) {
+      throw new Error(`Failed to load tag taxonomy from ${filePath}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Taxonomy used by the normalizer and the unknown-topic-tag rule:
+   * the one set at startup, or the bundled src/config/topic-tags.json
+   */
+  static getDefault(): TagTaxonomy {
+    if (!this.defaultTaxonomy) {
+      this.defaultTaxonomy = new TagTaxonomy(defaultTaxonomy);
+    }
+    return this.defaultTaxonomy;
+  }
+
+  static setDefault(taxonomy: TagTaxonomy): void {
+    this.defaultTaxonomy = taxonomy;
+  }
+
+  /**
+   * Make the TAG_TAXONOMY_PATH taxonomy the default, when one is configured
+   */
+  static loadConfigured(config: ValidationConfig): void {
+    if (config.tagTaxonomyPath) {
+      this.setDefault(this.load(config.tagTaxonomyPath));
+      logger.info('Tag taxonomy loaded', { path: config.tagTaxonomyPath });
+    }
+  }
+
+  /**
+   * Canonical tags, in file order
+   */
+  getTags(): string[] {
+    return Array.from(this.categoryByTag.keys());
+  }
+
+  /**
+   * Parent category of a canonical tag
+   */
+  getCategory(tag: string): string | undefined {
+    return this.categoryByTag.get(tag);
+  }
+
+  /**
+   * Synonyms listed for a canonical tag
+   */
+  getSynonyms(tag: string): string[] {
+    return this.synonymsByTag.get(tag) || [];
+  }
+
+  isCanonical(tag: string): boolean {
+    return this.categoryByTag.has(tag);
+  }
+
+  /**
+   * Resolve a tag to its canonical tag, or null when it is unknown
+   */
+  resolve(tag: string): { name: string; match: TagMatch } | null {
+    const key = toKey(tag);
+    const exact = this.canonicalByKey.get(key);
+    if (exact) {
+      return exact.match === 'canonical' && exact.name !== tag
+        ? { name: exact.name, match: 'synonym' } // Same tag, different spelling
+        : exact;
+    }
+
+    const typo = this.resolveTypo(key);
+    return typo ? { name: typo, match: 'typo' } : null;
+  }
+
+  /**
+   * Map tags to canonical tags, dropping duplicates created by the mapping
+   */
+  map(tags: string[]): TagMappingResult {
+    const result: TagMappingResult = { tags: [], changes: [], unmapped: [] };
+
+    tags.forEach((tag, index) => {
+      const resolved = this.resolve(tag);
+      const name = resolved ? resolved.name : tag;
+
+      if (!resolved) {
+        result.unmapped.push(tag);
+      } else if (resolved.name !== tag) {
+        result.changes.push({ index, from: tag, to: resolved.name, match: resolved.match });
+      }
+      if (!result.tags.includes(name)) {
+        result.tags.push(name);
+      }
+    });
+
+    return result;
+  }
+
+  private addKey(tag: string, canonical: string, match: TagMatch): void {
+    const key = toKey(tag);
+    const existing = this.canonicalByKey.get(key);
+    if (existing && existing.name !== canonical) {
+      throw new Error(`Tag "${tag}" maps to both "${existing.name}" and "${canonical}"`);
+    }
+    if (!existing) {
+      this.canonicalByKey.set(key, { name: canonical, match });
+    }
+  }
+
+  /**
+   * Canonical tag of the only key within edit distance 1, if any
+   */
+  private resolveTypo(key: string): string | null {
+    if (key.length < MIN_TYPO_KEY_LENGTH) {
+      return null;
+    }
+    if (this.typoCache.has(key)) {
+      return this.typoCache.get(key)!;
+    }
+
+    const matches = new Set<string>();
+    this.canonicalByKey.forEach((value, candidate) => {
+      if (candidate.length >= MIN_TYPO_KEY_LENGTH && withinOneEdit(key, candidate)) {
+        matches.add(value.name);
+      }
+    });
+
+    const resolved = matches.size === 1 ? Array.from(matches)[0] : null;
+    this.typoCache.set(key, resolved);
+    return resolved;
+  }
+}
+
+/**
+ * Comparison key: lowercase letters and digits only
+ */
+function toKey(tag: string): string {
+  return tag.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * True when one insertion, deletion or substitution turns a into b
+ */
+function withinOneEdit(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) {
+    return false;
+  }
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+
+  while (i < shorter.length && j < longer.length) {
+    if (shorter[i] === longer[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) {
+      return false;
+    }
+    if (shorter.length === longer.length) {
+      i++;
+    }
+    j++;
+  }
+
+  return edits + (longer.length - j) <= 1;
+}
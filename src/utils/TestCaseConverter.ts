@@ -0,0 +1,323 @@
+import { InputCount, InputSpec } from '../models/InputSpec';
+
+/**
+ * A literal from a LeetCode-style test case: scalars keep their source text
+ * (strings without quotes), lists are arrays
+ */
+export type LiteralValue = string | LiteralValue[];
+
+/**
+ * One "name = value" pair, in input order
+ */
+export interface Assignment {
+  name: string;
+  value: LiteralValue;
+}
+
+/**
+ * Test Case Converter - Deterministically rewrites LeetCode-style test cases
+ * ("nums = [2,7,11,15], target = 9", "[0,1]") into the stdin/stdout format.
+ *
+ * Inputs are laid out following the input spec derived from inputFormat:
+ * assignments fill the spec's scalars, arrays and line blocks (by name
+ * first, then in order), and count variables such as "n" are taken from
+ * the lengths of the values that use them. Anything the converter cannot
+ * map exactly returns null and is left to AI correction.
+ */
+export class TestCaseConverter {
+  /**
+   * Parse "name = value" pairs separated by commas or newlines
+   */
+  static parseAssignments(text: string): Assignment[] | null {
+    const parser = new LiteralParser(text);
+    const assignments: Assignment[] = [];
+
+    parser.skipWhitespace();
+    while (!parser.done()) {
+      const name = parser.readIdentifier();
+      if (!name || !parser.consume('=')) {
+        return null;
+      }
+      const value = parser.readValue();
+      if (value === null) {
+        return null;
+      }
+      assignments.push({ name, value });
+      parser.skipWhitespace();
+      if (!parser.done() && !parser.consume(',') && !parser.consumedNewline()) {
+        return null;
+      }
+      parser.skipWhitespace();
+    }
+
+    return assignments.length > 0 ? assignments : null;
+  }
+
+  /**
+   * Parse a single literal ("[0,1]", "\"abc\"", "true", "42")
+   */
+  static parseLiteral(text: string): LiteralValue | null {
+    const parser = new LiteralParser(text);
+    parser.skipWhitespace();
+    const value = parser.readValue();
+    parser.skipWhitespace();
+    return value !== null && parser.done() ? value : null;
+  }
+
+  /**
+   * Convert an assignment-format input to stdin following the input spec
+   */
+  static toStdin(input: string, spec: InputSpec): string | null {
+    const assignments = this.parseAssignments(input);
+    if (!assignments) {
+      return null;
+    }
+
+    const countVariables = new Set<string>();
+    spec.lines.forEach((line) => {
+      if (line.kind === 'array') {
+        addVariable(countVariables, line.length);
+      } else if (line.kind === 'lines') {
+        addVariable(countVariables, line.count);
+        addVariable(countVariables, line.width);
+      }
+    });
+
+    // Slots to fill from assignments: scalars that are not derived counts, arrays and line blocks
+    type Slot = { name: string; value?: LiteralValue };
+    const slots: Slot[] = [];
+    spec.lines.forEach((line) => {
+      if (line.kind === 'scalars') {
+        line.names.forEach((name) => {
+          if (!countVariables.has(name) || findAssignment(assignments, name)) {
+            slots.push({ name });
+          }
+        });
+      } else {
+        slots.push({ name: line.name });
+      }
+    });
+    if (slots.length !== assignments.length) {
+      return null;
+    }
+
+    // Match by name first, then the remaining assignments in order
+    const unused = [...assignments];
+    slots.forEach((slot) => {
+      const named = findAssignment(unused, slot.name);
+      if (named) {
+        slot.value = named.value;
+        unused.splice(unused.indexOf(named), 1);
+      }
+    });
+    slots
+      .filter((slot) => slot.value === undefined)
+      .forEach((slot) => {
+        slot.value = unused.shift()!.value;
+      });
+    const valueOf = (name: string) => slots.find((slot) => slot.name === name)?.value;
+
+    // Count variables come from the lengths of the values that use them
+    const counts = new Map<string, number>();
+    const setCount = (count: InputCount | undefined, actual: number): boolean => {
+      if (!count) {
+        return true;
+      }
+      if ('value' in count) {
+        return count.value === actual;
+      }
+      const known = counts.get(count.variable);
+      counts.set(count.variable, actual);
+      return known === undefined || known === actual;
+    };
+
+    const output: string[] = [];
+    const pending: Array<{ index: number; names: string[] }> = [];
+
+    for (const line of spec.lines) {
+      if (line.kind === 'scalars') {
+        pending.push({ index: output.length, names: line.names });
+        output.push(''); // Filled once all counts are known
+      } else if (line.kind === 'array') {
+        const value = valueOf(line.name);
+        if (!Array.isArray(value) || !value.every(isScalar) || !setCount(line.length, value.length)) {
+          return null;
+        }
+        output.push(value.join(' '));
+      } else {
+        const value = valueOf(line.name);
+        if (!Array.isArray(value) || !setCount(line.count, value.length)) {
+          return null;
+        }
+        for (const row of value) {
+          const cells = Array.isArray(row) ? row : [row];
+          const width = line.columns ? { value: line.columns.length } : line.width;
+          if (!cells.every(isScalar) || !setCount(width, cells.length)) {
+            return null;
+          }
+          output.push(cells.join(' '));
+        }
+      }
+    }
+
+    for (const { index, names } of pending) {
+      const values: string[] = [];
+      for (const name of names) {
+        const value = valueOf(name) ?? (counts.has(name) ? String(counts.get(name)) : undefined);
+        if (value === undefined || !isScalar(value)) {
+          return null;
+        }
+        // An assigned count must agree with the data it counts
+        if (counts.has(name) && String(counts.get(name)) !== value) {
+          return null;
+        }
+        values.push(value);
+      }
+      output[index] = values.join(' ');
+    }
+
+    return output.join('\n');
+  }
+
+  /**
+   * Convert a list-literal or assignment-format output to stdout:
+   * lists become space-separated values, nested lists one row per line
+   */
+  static toStdout(output: string): string | null {
+    const assignments = this.parseAssignments(output);
+    const value =
+      assignments && assignments.length === 1 ? assignments[0].value : this.parseLiteral(output);
+    if (value === null) {
+      return null;
+    }
+    if (typeof value === 'string') {
+      return value.length > 0 ? value : null;
+    }
+    if (value.length === 0) {
+      return null; // Expected output must not be empty
+    }
+    if (value.every(isScalar)) {
+      return value.join(' ');
+    }
+    if (value.every((row) => Array.isArray(row) && row.every(isScalar))) {
+      return value.map((row) => (row as string[]).join(' ')).join('\n');
+    }
+    return null;
+  }
+}
+
+function isScalar(value: LiteralValue): value is string {
+  return typeof value === 'string' && /^\S+$/.test(value);
+}
+
+function addVariable(variables: Set<string>, count: InputCount | undefined): void {
+  if (count && 'variable' in count) {
+    variables.add(count.variable);
+  }
+}
+
+function findAssignment(assignments: Assignment[], name: string): Assignment | undefined {
+  return assignments.find((assignment) => assignment.name.toLowerCase() === name.toLowerCase());
+}
+
+/**
+ * Recursive-descent reader for JSON/Python-style literals
+ */
+class LiteralParser {
+  private position = 0;
+
+  constructor(private text: string) {}
+
+  done(): boolean {
+    return this.position >= this.text.length;
+  }
+
+  skipWhitespace(): void {
+    while (!this.done() && /[ \t\r]/.test(this.text[this.position])) {
+      this.position++;
+    }
+  }
+
+  consume(char: string): boolean {
+    this.skipWhitespace();
+    if (this.text[this.position] === char) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  consumedNewline(): boolean {
+    let consumed = false;
+    while (!this.done() && /\s/.test(this.text[this.position])) {
+      consumed = consumed || this.text[this.position] === '\n';
+      this.position++;
+    }
+    return consumed;
+  }
+
+  readIdentifier(): string | null {
+    this.skipWhitespace();
+    const match = this.text.slice(this.position).match(/^[A-Za-z_]\w*/);
+    if (!match) {
+      return null;
+    }
+    this.position += match[0].length;
+    return match[0];
+  }
+
+  readValue(): LiteralValue | null {
+    this.skipWhitespace();
+    const char = this.text[this.position];
+
+    if (char === '[') {
+      this.position++;
+      const items: LiteralValue[] = [];
+      this.skipAllWhitespace();
+      if (this.text[this.position] === ']') {
+        this.position++;
+        return items;
+      }
+      for (;;) {
+        this.skipAllWhitespace();
+        const item = this.readValue();
+        if (item === null) {
+          return null;
+        }
+        items.push(item);
+        this.skipAllWhitespace();
+        if (this.text[this.position] === ',') {
+          this.position++;
+        } else if (this.text[this.position] === ']') {
+          this.position++;
+          return items;
+        } else {
+          return null;
+        }
+      }
+    }
+
+    if (char === '"' || char === "'") {
+      const end = this.text.indexOf(char, this.position + 1);
+      if (end === -1) {
+        return null;
+      }
+      const value = this.text.slice(this.position + 1, end);
+      this.position = end + 1;
+      return value;
+    }
+
+    const match = this.text.slice(this.position).match(/^(-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|True|False)\b/);
+    if (!match) {
+      return null; // null/None and bare words have no stdin form
+    }
+    this.position += match[0].length;
+    return match[0].replace(/^True$/, 'true').replace(/^False$/, 'false');
+  }
+
+  private skipAllWhitespace(): void {
+    while (!this.done() && /\s/.test(this.text[this.position])) {
+      this.position++;
+    }
+  }
+}
@@ -0,0 +1,19 @@
+import { NormalizationChange } from '../../models/NormalizationChange';
+
+/**
+ * A change reported by a step; DocumentNormalizer adds the step id
+ */
+export type StepChange = Omit<NormalizationChange, 'step'>;
+
+/**
+ * A deterministic normalization step run before validation.
+ *
+ * Steps receive a shallow copy of the document, modify it in place (replacing
+ * nested arrays and objects rather than mutating them) and report every
+ * field they changed.
+ */
+export interface NormalizationStep {
+  id: string; // Stable kebab-case id used in config and change logs
+  description: string;
+  apply(document: any): StepChange[];
+}
@@ -0,0 +1,70 @@
+import { InputSpecParser } from '../../validators/InputSpecParser';
+import { MarkupConverter } from '../MarkupConverter';
+import { NormalizationStep, StepChange } from './NormalizationStep';
+
+/**
+ * Convert leftover HTML/LaTeX/Markdown to plain text. Code fences stay in
+ * inputFormat/outputFormat, so Markdown is only converted in content and
+ * constraints. Each kind of replacement is one change per field.
+ */
+export const markupStep: NormalizationStep = {
+  id: 'markup',
+  description: 'HTML, LaTeX and Markdown in text fields are converted to plain text',
+  apply(document) {
+    const changes: StepChange[] = [];
+    const convert = (field: string, text: string, markdown: boolean): string => {
+      const result = MarkupConverter.convert(text, { markdown });
+      result.changes.forEach((change) => {
+        changes.push({
+          field,
+          before: change.from,
+          after: change.to,
+          ...(change.count > 1 && { count: change.count }),
+        });
+      });
+      return result.text;
+    };
+
+    if (typeof document.content === 'string') {
+      document.content = convert('content', document.content, true);
+    }
+    if (Array.isArray(document.constraints)) {
+      document.constraints = document.constraints.map((constraint: any, index: number) =>
+        typeof constraint === 'string' ? convert(`constraints.${index}`, constraint, true) : constraint
+      );
+    }
+    if (typeof document.inputFormat === 'string') {
+      document.inputFormat = convert('inputFormat', document.inputFormat, false);
+    }
+    if (typeof document.outputFormat === 'string') {
+      document.outputFormat = convert('outputFormat', document.outputFormat, false);
+    }
+
+    return changes;
+  },
+};
+
+/**
+ * Derive the structured input spec from inputFormat (kept in sync, dropped
+ * if unparseable)
+ */
+export const inputSpecStep: NormalizationStep = {
+  id: 'input-spec',
+  description: 'inputSpec is derived from the inputFormat code block',
+  apply(document) {
+    if (typeof document.inputFormat !== 'string') {
+      return [];
+    }
+    const before = document.inputSpec;
+    const after = InputSpecParser.parse(document.inputFormat) || undefined;
+    if (JSON.stringify(after) === JSON.stringify(before)) {
+      return [];
+    }
+    if (after) {
+      document.inputSpec = after;
+    } else {
+      delete document.inputSpec;
+    }
+    return [{ field: 'inputSpec', before, after }];
+  },
+};
@@ -0,0 +1,155 @@
+import { NormalizationStep, StepChange } from './NormalizationStep';
+
+const DIFFICULTIES: Record<string, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard',
+};
+
+/**
+ * Arrays that must exist, even if empty (don't send null/undefined)
+ */
+const ARRAY_FIELDS = ['topic_tags', 'constraints', 'testCases'];
+
+/**
+ * Difficulty in proper case; a missing difficulty defaults to "Medium"
+ */
+export const difficultyCaseStep: NormalizationStep = {
+  id: 'difficulty-case',
+  description: 'difficulty is "Easy", "Medium" or "Hard" (case- and whitespace-insensitive input)',
+  apply(document) {
+    const before = document.difficulty;
+    const after =
+      typeof before === 'string'
+        ? DIFFICULTIES[before.trim().toLowerCase()] || before // Keep as-is if unrecognized
+        : 'Medium'; // Default
+    if (after === before) {
+      return [];
+    }
+    document.difficulty = after;
+    return [{ field: 'difficulty', before, after }];
+  },
+};
+
+/**
+ * Slug in lowercase-with-hyphens format, generated from the title if missing
+ */
+export const slugStep: NormalizationStep = {
+  id: 'slug',
+  description: 'slug is generated from the title or cleaned up to lowercase-with-hyphens',
+  apply(document) {
+    const before = document.slug;
+    let after = before;
+    if (document.title && !before) {
+      after = generateSlug(String(document.title));
+    } else if (typeof before === 'string' && before) {
+      after = normalizeSlug(before);
+    }
+    if (after === before) {
+      return [];
+    }
+    document.slug = after;
+    return [{ field: 'slug', before, after }];
+  },
+};
+
+/**
+ * Remove MongoDB _id from test cases (clean up)
+ */
+export const testCaseIdsStep: NormalizationStep = {
+  id: 'test-case-ids',
+  description: 'test cases have no MongoDB _id',
+  apply(document) {
+    if (!Array.isArray(document.testCases)) {
+      return [];
+    }
+    const changes: StepChange[] = [];
+    document.testCases = document.testCases.map((testCase: any, index: number) => {
+      if (!testCase || typeof testCase !== 'object' || !('_id' in testCase)) {
+        return testCase;
+      }
+      const { _id, ...rest } = testCase;
+      changes.push({ field: `testCases.${index}._id`, before: _id?.toString() });
+      return rest;
+    });
+    return changes;
+  },
+};
+
+/**
+ * Ensure question_id exists (use _id if missing)
+ */
+export const questionIdStep: NormalizationStep = {
+  id: 'question-id',
+  description: 'question_id is backfilled from _id',
+  apply(document) {
+    if (document.question_id || !document._id) {
+      return [];
+    }
+    document.question_id = document._id.toString();
+    return [{ field: 'question_id', after: document.question_id }];
+  },
+};
+
+/**
+ * Clean up surrounding whitespace in the description
+ */
+export const trimContentStep: NormalizationStep = {
+  id: 'trim-content',
+  description: 'content has no leading or trailing whitespace',
+  apply(document) {
+    if (typeof document.content !== 'string') {
+      return [];
+    }
+    const before = document.content;
+    const after = before.trim();
+    if (after === before) {
+      return [];
+    }
+    document.content = after;
+    return [{ field: 'content', before, after }];
+  },
+};
+
+/**
+ * Ensure topic_tags, constraints and testCases are arrays
+ */
+export const arrayDefaultsStep: NormalizationStep = {
+  id: 'array-defaults',
+  description: 'topic_tags, constraints and testCases are arrays, empty if missing',
+  apply(document) {
+    const changes: StepChange[] = [];
+    ARRAY_FIELDS.forEach((field) => {
+      if (!Array.isArray(document[field])) {
+        changes.push({ field, before: document[field] ?? undefined, after: [] });
+        document[field] = [];
+      }
+    });
+    return changes;
+  },
+};
+
+/**
+ * Generate slug from title
+ */
+function generateSlug(title: string): string {
+  return title
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9\s-]/g, '') // Remove special chars
+    .replace(/\s+/g, '-') // Replace spaces with hyphens
+    .replace(/-+/g, '-') // Collapse multiple hyphens
+    .replace(/^-|-$/g, ''); // Remove leading/trailing hyphens
+}
+
+/**
+ * Normalize existing slug
+ */
+function normalizeSlug(slug: string): string {
+  return slug
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9-]/g, '') // Remove invalid chars
+    .replace(/-+/g, '-') // Collapse multiple hyphens
+    .replace(/^-|-$/g, ''); // Remove leading/trailing hyphens
+}
@@ -0,0 +1,41 @@
+import { markupStep, inputSpecStep } from './contentSteps';
+import {
+  arrayDefaultsStep,
+  difficultyCaseStep,
+  questionIdStep,
+  slugStep,
+  testCaseIdsStep,
+  trimContentStep,
+} from './fieldSteps';
+import { NormalizationStep } from './NormalizationStep';
+import { topicTagsStep } from './tagSteps';
+import { testCaseFormatStep } from './testCaseSteps';
+
+export { NormalizationStep, StepChange } from './NormalizationStep';
+export {
+  difficultyCaseStep,
+  slugStep,
+  testCaseIdsStep,
+  questionIdStep,
+  trimContentStep,
+  arrayDefaultsStep,
+} from './fieldSteps';
+export { markupStep, inputSpecStep } from './contentSteps';
+export { topicTagsStep } from './tagSteps';
+export { testCaseFormatStep } from './testCaseSteps';
+
+/**
+ * Steps run by default, in order
+ */
+export const BUILT_IN_STEPS: NormalizationStep[] = [
+  difficultyCaseStep,
+  slugStep,
+  testCaseIdsStep,
+  questionIdStep,
+  trimContentStep,
+  markupStep,
+  inputSpecStep,
+  testCaseFormatStep,
+  arrayDefaultsStep,
+  topicTagsStep,
+];
@@ -0,0 +1,33 @@
+import { TagTaxonomy } from '../TagTaxonomy';
+import { NormalizationStep } from './NormalizationStep';
+
+/**
+ * Map tag synonyms and misspellings to canonical tags (unknown tags are kept)
+ */
+export const topicTagsStep: NormalizationStep = {
+  id: 'topic-tags',
+  description: 'topic_tags use the canonical tags of the tag taxonomy',
+  apply(document) {
+    if (
+      !Array.isArray(document.topic_tags) ||
+      !document.topic_tags.every((tag: any) => typeof tag === 'string')
+    ) {
+      return [];
+    }
+    const mapping = TagTaxonomy.getDefault().map(document.topic_tags);
+    if (mapping.tags.length === document.topic_tags.length && mapping.changes.length === 0) {
+      return [];
+    }
+    const before = document.topic_tags;
+    document.topic_tags = mapping.tags;
+    // Dropped duplicates shift the indexes, so report the whole list
+    if (mapping.tags.length !== before.length) {
+      return [{ field: 'topic_tags', before, after: mapping.tags }];
+    }
+    return mapping.changes.map((change) => ({
+      field: `topic_tags.${change.index}`,
+      before: change.from,
+      after: change.to,
+    }));
+  },
+};
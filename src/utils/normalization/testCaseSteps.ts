@@ -0,0 +1,77 @@
+import { CodingQuestionValidator } from '../../models/CodingQuestion';
+import { InputSpecSchema } from '../../models/InputSpec';
+import { TestCaseConverter } from '../TestCaseConverter';
+import { NormalizationStep, StepChange } from './NormalizationStep';
+
+/**
+ * Rewrite LeetCode-style test cases ("nums = [2,7], target = 9", "[0,1]")
+ * to stdin/stdout following the input spec. The replaced text is kept in
+ * original_input/original_output unless those already hold an original.
+ * Test cases the converter cannot map exactly are left for AI correction.
+ */
+export const testCaseFormatStep: NormalizationStep = {
+  id: 'test-case-format',
+  description: 'assignment-format inputs and list-literal outputs are converted to stdin/stdout',
+  apply(document) {
+    if (!Array.isArray(document.testCases)) {
+      return [];
+    }
+    const spec = InputSpecSchema.safeParse(document.inputSpec);
+    const changes: StepChange[] = [];
+
+    document.testCases = document.testCases.map((testCase: any, index: number) => {
+      if (!testCase || typeof testCase !== 'object') {
+        return testCase;
+      }
+      const converted = { ...testCase };
+
+      if (
+        spec.success &&
+        typeof testCase.input === 'string' &&
+        CodingQuestionValidator.usesAssignmentFormat(testCase.input)
+      ) {
+        const input = TestCaseConverter.toStdin(testCase.input, spec.data);
+        if (input !== null) {
+          converted.input = input;
+          changes.push({ field: `testCases.${index}.input`, before: testCase.input, after: input });
+          if (!testCase.original_input) {
+            converted.original_input = testCase.input;
+            changes.push({
+              field: `testCases.${index}.original_input`,
+              before: testCase.original_input,
+              after: testCase.input,
+            });
+          }
+        }
+      }
+
+      if (
+        typeof testCase.expectedOutput === 'string' &&
+        (CodingQuestionValidator.usesAssignmentFormat(testCase.expectedOutput) ||
+          CodingQuestionValidator.usesListLiteralFormat(testCase.expectedOutput))
+      ) {
+        const output = TestCaseConverter.toStdout(testCase.expectedOutput);
+        if (output !== null) {
+          converted.expectedOutput = output;
+          changes.push({
+            field: `testCases.${index}.expectedOutput`,
+            before: testCase.expectedOutput,
+            after: output,
+          });
+          if (!testCase.original_output) {
+            converted.original_output = testCase.expectedOutput;
+            changes.push({
+              field: `testCases.${index}.original_output`,
+              before: testCase.original_output,
+              after: testCase.expectedOutput,
+            });
+          }
+        }
+      }
+
+      return converted;
+    });
+
+    return changes;
+  },
+};
@@ -0,0 +1,303 @@
+/**
+ * A bound is either a literal number or a reference to a scalar input variable
+ * (e.g. the `n` in "1 <= k <= n")
+ */
+export type BoundValue = { value: number } | { variable: string };
+
+/**
+ * What a constraint restricts
+ * - value:   the variable itself ("1 <= n <= 10^5")
+ * - element: every element of an array ("-10^9 <= nums[i] <= 10^9")
+ * - length:  the length of an array or string ("1 <= nums.length <= 10^4")
+ */
+export type ConstraintTarget = 'value' | 'element' | 'length';
+
+/**
+ * Structured bound on a named variable
+ */
+export interface ConstraintBound {
+  variable: string;
+  target: ConstraintTarget;
+  min?: BoundValue;
+  minInclusive: boolean;
+  max?: BoundValue;
+  maxInclusive: boolean;
+  source: string;
+}
+
+type Operator = '<' | '<=' | '>' | '>=' | '==';
+
+/**
+ * Constraint Parser - Turns free-text constraints into structured bounds
+ */
+export class ConstraintParser {
+  /**
+   * Parse every constraint string, skipping the ones in unknown notation
+   */
+  static parseAll(constraints: string[]): ConstraintBound[] {
+    return constraints.flatMap((constraint) => this.parse(constraint));
+  }
+
+  /**
+   * Parse a single constraint such as "1 <= n, m <= 10^5"
+   */
+  static parse(constraint: string): ConstraintBound[] {
+    const text = this.normalize(constraint);
+    const parts = text.split(/(<=|>=|==|<|>)/).map((part) => part.trim());
+
+    // parts = [operand, op, operand] or [operand, op, operand, op, operand]
+    if (parts.length !== 3 && parts.length !== 5) {
+      return [];
+    }
+
+    const operands = parts.filter((_, index) => index % 2 === 0);
+    const operators = parts.filter((_, index) => index % 2 === 1) as Operator[];
+
+    if (parts.length === 5) {
+      return this.parseChain(operands, operators, constraint);
+    }
+    return this.parseComparison(operands[0], operators[0], operands[1], constraint);
+  }
+
+  /**
+   * "lo <= vars <= hi" or "hi >= vars >= lo"
+   */
+  private static parseChain(
+    operands: string[],
+    operators: Operator[],
+    source: string
+  ): ConstraintBound[] {
+    const targets = this.parseTargets(operands[1]);
+    if (targets.length === 0) {
+      return [];
+    }
+
+    const ascending = operators.every((op) => op === '<' || op === '<=');
+    const descending = operators.every((op) => op === '>' || op === '>=');
+    if (!ascending && !descending) {
+      return [];
+    }
+
+    const [lowOperand, lowOp, highOperand, highOp] = ascending
+      ? [operands[0], operators[0], operands[2], operators[1]]
+      : [operands[2], operators[1], operands[0], operators[0]];
+
+    const min = this.parseBoundValue(lowOperand);
+    const max = this.parseBoundValue(highOperand);
+    if (!min || !max) {
+      return [];
+    }
+
+    return targets.map((target) => ({
+      ...target,
+      min,
+      minInclusive: lowOp.endsWith('='),
+      max,
+      maxInclusive: highOp.endsWith('='),
+      source,
+    }));
+  }
+
+  /**
+   * "vars op bound" or "bound op vars"
+   */
+  private static parseComparison(
+    left: string,
+    op: Operator,
+    right: string,
+    source: string
+  ): ConstraintBound[] {
+    let targets = this.parseTargets(left);
+    let bound = this.parseBoundValue(right);
+    let operator = op;
+
+    if (targets.length === 0 || !bound) {
+      // Flip "10 >= n" into "n <= 10"
+      targets = this.parseTargets(right);
+      bound = this.parseBoundValue(left);
+      operator = this.flip(op);
+    }
+    if (targets.length === 0 || !bound) {
+      return [];
+    }
+
+    const inclusive = operator.endsWith('=');
+    return targets.map((target) => ({
+      ...target,
+      min: operator === '>' || operator === '>=' || operator === '==' ? bound! : undefined,
+      minInclusive: inclusive,
+      max: operator === '<' || operator === '<=' || operator === '==' ? bound! : undefined,
+      maxInclusive: inclusive,
+      source,
+    }));
+  }
+
+  /**
+   * Parse a comma-separated list of constrained variables
+   */
+  private static parseTargets(text: string): Array<{ variable: string; target: ConstraintTarget }> {
+    const targets: Array<{ variable: string; target: ConstraintTarget }> = [];
+
+    for (const rawTerm of text.split(',')) {
+      const term = rawTerm.trim();
+      let match: RegExpMatchArray | null;
+
+      if ((match = term.match(/^([A-Za-z_]\w*)\.(?:length|size\(\))$/))) {
+        // nums.length, s.length
+        targets.push({ variable: match[1], target: 'length' });
+      } else if ((match = term.match(/^(?:len\(\s*([A-Za-z_]\w*)\s*\)|\|\s*([A-Za-z_]\w*)\s*\|)$/))) {
+        // len(s), |s|
+        targets.push({ variable: match[1] || match[2], target: 'length' });
+      } else if ((match = term.match(/^([A-Za-z_]\w*)(?:\[[^\]]*\])+$/))) {
+        // nums[i], grid[i][j]
+        targets.push({ variable: match[1], target: 'element' });
+      } else if ((match = term.match(/^([A-Za-z_]\w*)$/))) {
+        targets.push({ variable: match[1], target: 'value' });
+      } else {
+        return [];
+      }
+    }
+
+    return targets;
+  }
+
+  /**
+   * Parse a bound: arithmetic on numbers ("2 * 10^5", "2^31 - 1", "1e9") or a variable name
+   */
+  private static parseBoundValue(text: string): BoundValue | null {
+    const trimmed = text.trim();
+    if (/^[A-Za-z_]\w*$/.test(trimmed) && !/^\d/.test(trimmed)) {
+      return { variable: trimmed };
+    }
+
+    const value = new ArithmeticParser(trimmed).parse();
+    return value === null ? null : { value };
+  }
+
+  private static flip(op: Operator): Operator {
+    switch (op) {
+      case '<':
+        return '>';
+      case '<=':
+        return '>=';
+      case '>':
+        return '<';
+      case '>=':
+        return '<=';
+      default:
+        return op;
+    }
+  }
+
+  /**
+   * Normalize unicode/HTML/LaTeX comparison notation to ASCII
+   */
+  private static normalize(constraint: string): string {
+    return constraint
+      .replace(/`/g, '')
+      .replace(/\$/g, '')
+      .replace(/\\le(q)?\b/g, '<=')
+      .replace(/\\ge(q)?\b/g, '>=')
+      .replace(/\\times|\\cdot|×|·/g, '*')
+      .replace(/&lt;=|≤|⩽/g, '<=')
+      .replace(/&gt;=|≥|⩾/g, '>=')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/\*\*/g, '^')
+      .replace(/(\d),(\d{3})\b/g, '$1$2') // 100,000 -> 100000
+      .replace(/(?<![<>=!])=(?!=)/g, '==')
+      .replace(/\.$/, '')
+      .trim();
+  }
+}
+
+/**
+ * Minimal recursive-descent evaluator for + - * / ^ and parentheses
+ */
+class ArithmeticParser {
+  private tokens: string[];
+  private position = 0;
+
+  constructor(text: string) {
+    this.tokens = text.match(/\d+(?:\.\d+)?(?:e\d+)?|[-+*/^()]|\S/gi) || [];
+  }
+
+  parse(): number | null {
+    if (this.tokens.length === 0) {
+      return null;
+    }
+    const value = this.expression();
+    if (value === null || this.position !== this.tokens.length || !Number.isFinite(value)) {
+      return null;
+    }
+    return value;
+  }
+
+  private expression(): number | null {
+    let value = this.term();
+    while (value !== null && (this.peek() === '+' || this.peek() === '-')) {
+      const op = this.tokens[this.position++];
+      const right = this.term();
+      if (right === null) {
+        return null;
+      }
+      value = op === '+' ? value + right : value - right;
+    }
+    return value;
+  }
+
+  private term(): number | null {
+    let value = this.unary();
+    while (value !== null && (this.peek() === '*' || this.peek() === '/')) {
+      const op = this.tokens[this.position++];
+      const right = this.unary();
+      if (right === null) {
+        return null;
+      }
+      value = op === '*' ? value * right : value / right;
+    }
+    return value;
+  }
+
+  // Unary minus binds looser than ^, so "-10^9" is -(10^9)
+  private unary(): number | null {
+    if (this.peek() === '-') {
+      this.position++;
+      const value = this.unary();
+      return value === null ? null : -value;
+    }
+    return this.power();
+  }
+
+  private power(): number | null {
+    const base = this.primary();
+    if (base !== null && this.peek() === '^') {
+      this.position++;
+      const exponent = this.unary(); // right-associative, allows 10^-6
+      return exponent === null ? null : Math.pow(base, exponent);
+    }
+    return base;
+  }
+
+  private primary(): number | null {
+    const token = this.peek();
+    if (token === '(') {
+      this.position++;
+      const value = this.expression();
+      if (this.peek() !== ')') {
+        return null;
+      }
+      this.position++;
+      return value;
+    }
+    if (token !== undefined && /^\d/.test(token)) {
+      this.position++;
+      return parseFloat(token);
+    }
+    return null;
+  }
+
+  private peek(): string | undefined {
+    return this.tokens[this.position];
+  }
+}
@@ -0,0 +1,153 @@
+import { CodingQuestion } from '../models/CodingQuestion';
+import { ValidationError, ValidationErrorFactory } from '../models/ValidationError';
+import { InputSpec } from '../models/InputSpec';
+import { BoundValue, ConstraintBound, ConstraintParser } from './ConstraintParser';
+import { InputSpecParser, ParsedInput } from './InputSpecParser';
+
+/**
+ * Constraint Validator - Checks test inputs against the bounds in `constraints`
+ */
+export class ConstraintValidator {
+  /**
+   * Validate every test case input against the parsed constraints
+   */
+  static validate(question: CodingQuestion): ValidationError[] {
+    const spec = InputSpecParser.parse(question.inputFormat);
+    if (!spec) {
+      return [];
+    }
+
+    const errors: ValidationError[] = [];
+    const bounds = this.aliasBounds(ConstraintParser.parseAll(question.constraints), spec);
+
+    question.testCases.forEach((testCase, index) => {
+      const field = `testCases.${index}.input`;
+      const result = InputSpecParser.read(testCase.input, spec);
+
+      // Inputs that do not parse are reported by InputSpecValidator
+      if (!result.ok) {
+        return;
+      }
+
+      bounds.forEach((bound) => {
+        const violation = this.checkBound(bound, result.values);
+        if (violation) {
+          errors.push(
+            ValidationErrorFactory.constraintViolation(
+              field,
+              `Test case ${testCase.id}: ${violation} (constraint "${bound.source}")`
+            )
+          );
+        }
+      });
+    });
+
+    return errors;
+  }
+
+  /**
+   * Map constraint variables onto spec names. When the spec has exactly one
+   * array and the constraints talk about exactly one unknown array, they refer
+   * to the same thing (e.g. constraints use "nums[i]", spec uses "a1 ... an").
+   */
+  private static aliasBounds(bounds: ConstraintBound[], spec: InputSpec): ConstraintBound[] {
+    const arrays: string[] = [];
+    const known = new Set<string>();
+    spec.lines.forEach((line) => {
+      if (line.kind === 'scalars') {
+        line.names.forEach((name) => known.add(name));
+      } else if (line.kind === 'lines' && line.columns) {
+        line.columns.forEach((column) => known.add(column));
+      } else {
+        arrays.push(line.name);
+        known.add(line.name);
+      }
+    });
+    const unknownArrays = new Set(
+      bounds
+        .filter((bound) => bound.target !== 'value' && !known.has(bound.variable))
+        .map((bound) => bound.variable)
+    );
+
+    if (arrays.length !== 1 || unknownArrays.size !== 1) {
+      return bounds;
+    }
+
+    const [alias] = Array.from(unknownArrays);
+    return bounds.map((bound) =>
+      bound.variable === alias ? { ...bound, variable: arrays[0] } : bound
+    );
+  }
+
+  /**
+   * Check a single bound against parsed input; returns a violation message or null
+   */
+  private static checkBound(bound: ConstraintBound, parsed: ParsedInput): string | null {
+    const min = this.resolve(bound.min, parsed);
+    const max = this.resolve(bound.max, parsed);
+    const label =
+      bound.target === 'length'
+        ? `length of ${bound.variable}`
+        : bound.target === 'element'
+          ? `${bound.variable}[i]`
+          : bound.variable;
+
+    let values: number[] = [];
+    if (bound.target === 'value') {
+      const raw = parsed.scalars.get(bound.variable);
+      if (raw === undefined || !isNumeric(raw)) {
+        return null;
+      }
+      values = [Number(raw)];
+    } else if (bound.target === 'element') {
+      const raw = parsed.arrays.get(bound.variable);
+      if (!raw || !raw.every(isNumeric)) {
+        return null;
+      }
+      values = raw.map(Number);
+    } else {
+      const array = parsed.arrays.get(bound.variable);
+      const scalar = parsed.scalars.get(bound.variable);
+      if (array) {
+        values = [array.length];
+      } else if (scalar !== undefined) {
+        values = [scalar.length];
+      } else {
+        return null;
+      }
+    }
+
+    for (const value of values) {
+      if (min !== null && (bound.minInclusive ? value < min : value <= min)) {
+        return `${label}=${value} is below ${bound.minInclusive ? 'minimum' : 'exclusive minimum'} ${min}`;
+      }
+      if (max !== null && (bound.maxInclusive ? value > max : value >= max)) {
+        return `${label}=${value} is above ${bound.maxInclusive ? 'maximum' : 'exclusive maximum'} ${max}`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolve a bound to a number using scalar values from the input
+   */
+  private static resolve(bound: BoundValue | undefined, parsed: ParsedInput): number | null {
+    if (!bound) {
+      return null;
+    }
+    if ('value' in bound) {
+      return bound.value;
+    }
+    const raw = parsed.scalars.get(bound.variable);
+    if (raw !== undefined && isNumeric(raw)) {
+      return Number(raw);
+    }
+    const array = parsed.arrays.get(bound.variable);
+    return array ? array.length : null;
+  }
+}
+
+function isNumeric(token: string): boolean {
+  return /^-?\d+(\.\d+)?$/.test(token);
+}
@@ -0,0 +1,168 @@
+import { ExecutionConfig } from '../config/execution.config';
+import { CodingQuestion } from '../models/CodingQuestion';
+import { ValidationError, ValidationErrorFactory } from '../models/ValidationError';
+import { CodeSandbox, PreparedProgram, ProcessResult, SandboxLanguage } from '../utils/CodeSandbox';
+import { InputGenerator } from '../utils/InputGenerator';
+import { logger } from '../utils/Logger';
+import { ExecutionValidator } from './ExecutionValidator';
+
+const MAX_DETAIL_LENGTH = 500;
+
+/**
+ * Per-language divergence collected across inputs
+ */
+interface Divergence {
+  count: number;
+  input: string;
+  majorityOutput: string;
+  actual: string;
+}
+
+/**
+ * Differential Tester - Runs all solutions on stored and generated inputs
+ * and reports languages whose output diverges from the majority
+ */
+export class DifferentialTester {
+  private sandbox: CodeSandbox;
+  private config: ExecutionConfig;
+
+  constructor(config: ExecutionConfig, sandbox?: CodeSandbox) {
+    this.config = config;
+    this.sandbox = sandbox || new CodeSandbox(config);
+  }
+
+  /**
+   * Probe toolchains before the first comparison
+   */
+  async initialize(): Promise<void> {
+    await this.sandbox.initialize();
+  }
+
+  /**
+   * Compare the solutions of all available languages
+   */
+  async validate(question: CodingQuestion): Promise<ValidationError[]> {
+    const languages = this.sandbox.getAvailableLanguages();
+    if (languages.length < 3) {
+      logger.warn('Differential testing needs at least 3 languages for a majority, skipping', {
+        questionId: question.question_id,
+        languages,
+      });
+      return [];
+    }
+
+    const storedInputs = question.testCases.map((tc) => tc.input);
+    const inputs = [
+      ...storedInputs,
+      ...InputGenerator.generate(
+        storedInputs,
+        this.config.generatedInputCount,
+        this.config.generatorSeed
+      ),
+    ];
+
+    const programs: PreparedProgram[] = [];
+    try {
+      for (const language of languages) {
+        programs.push(await this.sandbox.prepare(language, question.solutionCode[language]));
+      }
+
+      // Languages that do not compile are reported by the execution stage
+      const runnable = programs.filter((program) => program.compiled);
+      if (runnable.length < 3) {
+        return [];
+      }
+
+      const divergences = new Map<SandboxLanguage, Divergence>();
+      let undecided = 0;
+
+      for (const input of inputs) {
+        const outcomes = new Map<SandboxLanguage, string>();
+        for (const program of runnable) {
+          outcomes.set(program.language, this.outcomeOf(await this.sandbox.run(program, input)));
+        }
+
+        const majority = this.findMajority(Array.from(outcomes.values()));
+        if (majority === null) {
+          undecided++;
+          continue;
+        }
+
+        outcomes.forEach((outcome, language) => {
+          if (outcome === majority) {
+            return;
+          }
+          const existing = divergences.get(language);
+          if (existing) {
+            existing.count++;
+          } else {
+            divergences.set(language, {
+              count: 1,
+              input: truncate(input),
+              majorityOutput: truncate(majority),
+              actual: truncate(outcome),
+            });
+          }
+        });
+      }
+
+      if (undecided > 0) {
+        logger.warn('No majority output for some inputs', {
+          questionId: question.question_id,
+          undecidedInputs: undecided,
+          totalInputs: inputs.length,
+        });
+      }
+
+      return Array.from(divergences.entries()).map(([language, divergence]) =>
+        ValidationErrorFactory.solutionDisagreement(
+          `solutionCode.${language}`,
+          language,
+          divergence.input,
+          divergence.majorityOutput,
+          divergence.actual,
+          divergence.count
+        )
+      );
+    } finally {
+      for (const program of programs) {
+        await this.sandbox.cleanup(program);
+      }
+    }
+  }
+
+  /**
+   * Reduce a run result to a comparable outcome string
+   */
+  private outcomeOf(result: ProcessResult): string {
+    if (result.timedOut) {
+      return '<timeout>';
+    }
+    if (result.outputLimitExceeded) {
+      return '<output limit exceeded>';
+    }
+    if (result.exitCode !== 0) {
+      return '<runtime error>';
+    }
+    return ExecutionValidator.normalizeOutput(result.stdout);
+  }
+
+  /**
+   * Outcome shared by a strict majority, or null if there is none
+   */
+  private findMajority(outcomes: string[]): string | null {
+    const counts = new Map<string, number>();
+    outcomes.forEach((outcome) => counts.set(outcome, (counts.get(outcome) || 0) + 1));
+
+    for (const [outcome, count] of counts) {
+      if (count * 2 > outcomes.length) {
+        return outcome;
+      }
+    }
+    return null;
+  }
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_DETAIL_LENGTH ? `${text.substring(0, MAX_DETAIL_LENGTH)}...` : text;
+}
@@ -0,0 +1,353 @@
+import { ObjectId } from 'mongodb';
+
+const NUM_HASHES = 128;
+const BANDS = 32; // 32 bands x 4 rows: pairs above ~0.5 similarity become candidates
+const ROWS_PER_BAND = NUM_HASHES / BANDS;
+const SHINGLE_SIZE = 3;
+
+/**
+ * Why two documents are considered duplicates
+ */
+export type DuplicateReason = 'slug' | 'question_id' | 'title' | 'content';
+
+const EXACT_GROUP_STATS = {
+  slug: 'exactSlugGroups',
+  question_id: 'exactQuestionIdGroups',
+  title: 'exactTitleGroups',
+} as const;
+
+/**
+ * A document as remembered by the detector
+ */
+export interface DuplicateCandidate {
+  documentId: string;
+  questionId: string;
+  slug: string;
+  title: string;
+  testCaseCount: number;
+  contentLength: number;
+  isValid: boolean;
+}
+
+/**
+ * A link between two documents of a cluster
+ */
+export interface DuplicateLink {
+  a: string; // documentId
+  b: string;
+  reason: DuplicateReason;
+  similarity: number; // 1 for exact matches
+}
+
+/**
+ * A group of documents that are duplicates of each other
+ */
+export interface DuplicateCluster {
+  members: DuplicateCandidate[];
+  links: DuplicateLink[];
+  canonical: DuplicateCandidate; // Suggested document to keep
+}
+
+/**
+ * Duplicate detection statistics
+ */
+export interface DuplicateStats {
+  documentsChecked: number;
+  exactSlugGroups: number;
+  exactQuestionIdGroups: number;
+  exactTitleGroups: number;
+  nearDuplicatePairs: number;
+  clusters: number;
+  documentsInClusters: number;
+}
+
+/**
+ * Duplicate detection result for a whole collection
+ */
+export interface DuplicateReport {
+  clusters: DuplicateCluster[];
+  stats: DuplicateStats;
+}
+
+/**
+ * Duplicate Detector - Collection-level check for exact duplicates on
+ * slug/question_id/title and near-duplicates by content and test cases.
+ *
+ * Documents are added one at a time while the scanner streams the
+ * collection; only identifiers and a MinHash signature are kept per
+ * document. Near-duplicate candidates come from locality-sensitive hashing
+ * over the signatures and are confirmed by estimated Jaccard similarity.
+ */
+export class DuplicateDetector {
+  private similarityThreshold: number;
+  private candidates: DuplicateCandidate[] = [];
+  private signatures: Array<Uint32Array | null> = []; // null when there is nothing to compare
+  private exactKeys: Record<'slug' | 'question_id' | 'title', Map<string, number[]>> = {
+    slug: new Map(),
+    question_id: new Map(),
+    title: new Map(),
+  };
+
+  constructor(similarityThreshold: number = 0.8) {
+    this.similarityThreshold = similarityThreshold;
+  }
+
+  /**
+   * Remember a document for the collection-wide check
+   */
+  add(document: any, isValid: boolean): void {
+    const index = this.candidates.length;
+    const testCases: any[] = Array.isArray(document.testCases) ? document.testCases : [];
+
+    this.candidates.push({
+      documentId: document._id?.toString() || `#${index}`,
+      questionId: String(document.question_id || ''),
+      slug: String(document.slug || ''),
+      title: String(document.title || ''),
+      testCaseCount: testCases.length,
+      contentLength: typeof document.content === 'string' ? document.content.length : 0,
+      isValid,
+    });
+    this.signatures.push(this.signature(this.shingles(document, testCases)));
+
+    this.addExactKey('slug', document.slug);
+    this.addExactKey('question_id', document.question_id);
+    this.addExactKey('title', typeof document.title === 'string' ? normalizeTitle(document.title) : '');
+  }
+
+  /**
+   * Find duplicate clusters among all added documents
+   */
+  detect(): DuplicateReport {
+    const links: Array<{ a: number; b: number; reason: DuplicateReason; similarity: number }> = [];
+    const stats: DuplicateStats = {
+      documentsChecked: this.candidates.length,
+      exactSlugGroups: 0,
+      exactQuestionIdGroups: 0,
+      exactTitleGroups: 0,
+      nearDuplicatePairs: 0,
+      clusters: 0,
+      documentsInClusters: 0,
+    };
+
+    // Exact matches: link every group member to the first one
+    (['slug', 'question_id', 'title'] as const).forEach((reason) => {
+      this.exactKeys[reason].forEach((indices) => {
+        if (indices.length < 2) {
+          return;
+        }
+        stats[EXACT_GROUP_STATS[reason]]++;
+        indices.slice(1).forEach((index) => {
+          links.push({ a: indices[0], b: index, reason, similarity: 1 });
+        });
+      });
+    });
+
+    // Near duplicates: candidate pairs share at least one LSH band
+    const seenPairs = new Set<string>();
+    for (let band = 0; band < BANDS; band++) {
+      const buckets = new Map<string, number[]>();
+      this.signatures.forEach((signature, index) => {
+        if (!signature) {
+          return;
+        }
+        const key = Array.from(
+          signature.subarray(band * ROWS_PER_BAND, (band + 1) * ROWS_PER_BAND)
+        ).join(',');
+        const bucket = buckets.get(key);
+        if (bucket) {
+          bucket.push(index);
+        } else {
+          buckets.set(key, [index]);
+        }
+      });
+
+      buckets.forEach((bucket) => {
+        for (let i = 0; i < bucket.length; i++) {
+          for (let j = i + 1; j < bucket.length; j++) {
+            const pairKey = `${bucket[i]}:${bucket[j]}`;
+            if (seenPairs.has(pairKey)) {
+              continue;
+            }
+            seenPairs.add(pairKey);
+
+            const similarity = estimateJaccard(
+              this.signatures[bucket[i]]!,
+              this.signatures[bucket[j]]!
+            );
+            if (similarity >= this.similarityThreshold) {
+              stats.nearDuplicatePairs++;
+              links.push({ a: bucket[i], b: bucket[j], reason: 'content', similarity });
+            }
+          }
+        }
+      });
+    }
+
+    // Group linked documents with union-find
+    const parent = this.candidates.map((_, index) => index);
+    const find = (index: number): number => {
+      while (parent[index] !== index) {
+        parent[index] = parent[parent[index]];
+        index = parent[index];
+      }
+      return index;
+    };
+    links.forEach((link) => {
+      parent[find(link.a)] = find(link.b);
+    });
+
+    const groups = new Map<number, number[]>();
+    links.forEach((link) => {
+      [link.a, link.b].forEach((index) => {
+        const root = find(index);
+        const group = groups.get(root) || [];
+        if (!group.includes(index)) {
+          group.push(index);
+        }
+        groups.set(root, group);
+      });
+    });
+
+    const clusters: DuplicateCluster[] = Array.from(groups.entries()).map(([root, indices]) => {
+      const members = indices.sort((a, b) => a - b).map((index) => this.candidates[index]);
+      return {
+        members,
+        links: links
+          .filter((link) => find(link.a) === root)
+          .map((link) => ({
+            a: this.candidates[link.a].documentId,
+            b: this.candidates[link.b].documentId,
+            reason: link.reason,
+            similarity: Math.round(link.similarity * 1000) / 1000,
+          })),
+        canonical: this.pickCanonical(members),
+      };
+    });
+
+    stats.clusters = clusters.length;
+    stats.documentsInClusters = clusters.reduce((sum, cluster) => sum + cluster.members.length, 0);
+
+    return { clusters, stats };
+  }
+
+  /**
+   * Suggest which document of a cluster to keep: valid documents first, then
+   * the one with most test cases, the longest description, and finally the
+   * oldest (ObjectIds sort by creation time)
+   */
+  private pickCanonical(members: DuplicateCandidate[]): DuplicateCandidate {
+    return [...members].sort(
+      (a, b) =>
+        Number(b.isValid) - Number(a.isValid) ||
+        b.testCaseCount - a.testCaseCount ||
+        b.contentLength - a.contentLength ||
+        creationTime(a.documentId) - creationTime(b.documentId)
+    )[0];
+  }
+
+  private addExactKey(reason: 'slug' | 'question_id' | 'title', value: unknown): void {
+    if (typeof value !== 'string' || value.trim().length === 0) {
+      return;
+    }
+    const index = this.candidates.length - 1;
+    const indices = this.exactKeys[reason].get(value) || [];
+    indices.push(index);
+    this.exactKeys[reason].set(value, indices);
+  }
+
+  /**
+   * Word shingles of the description plus one token per test case
+   */
+  private shingles(document: any, testCases: any[]): Set<string> {
+    const words = String(document.content || '')
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .split(/\s+/)
+      .filter((word) => word.length > 0);
+    const shingles = new Set<string>();
+
+    for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+      shingles.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+    }
+    if (words.length > 0 && words.length < SHINGLE_SIZE) {
+      shingles.add(words.join(' '));
+    }
+    testCases.forEach((testCase) => {
+      shingles.add(`tc:${normalizeWhitespace(testCase?.input)}=>${normalizeWhitespace(testCase?.expectedOutput)}`);
+    });
+
+    return shingles;
+  }
+
+  /**
+   * MinHash signature: minimum of each seeded hash over all shingles
+   */
+  private signature(shingles: Set<string>): Uint32Array | null {
+    if (shingles.size === 0) {
+      return null;
+    }
+    const signature = new Uint32Array(NUM_HASHES).fill(0xffffffff);
+
+    shingles.forEach((shingle) => {
+      const base = fnv1a(shingle);
+      for (let i = 0; i < NUM_HASHES; i++) {
+        const hash = mix32(base ^ Math.imul(i + 1, 0x9e3779b1));
+        if (hash < signature[i]) {
+          signature[i] = hash;
+        }
+      }
+    });
+
+    return signature;
+  }
+}
+
+function estimateJaccard(a: Uint32Array, b: Uint32Array): number {
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) {
+      equal++;
+    }
+  }
+  return equal / a.length;
+}
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function normalizeWhitespace(value: unknown): string {
+  return String(value ?? '').trim().replace(/\s+/g, ' ');
+}
+
+function creationTime(documentId: string): number {
+  return ObjectId.isValid(documentId) && documentId.length === 24
+    ? new ObjectId(documentId).getTimestamp().getTime()
+    : Number.MAX_SAFE_INTEGER;
+}
+
+/**
+ * 32-bit FNV-1a string hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Finalizer from MurmurHash3 to spread seeded hashes
+ */
+function mix32(value: number): number {
+  let hash = value;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
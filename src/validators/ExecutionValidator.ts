@@ -0,0 +1,156 @@
+import { ExecutionConfig } from '../config/execution.config';
+import { CodingQuestion, TestCase } from '../models/CodingQuestion';
+import { ValidationError, ValidationErrorFactory } from '../models/ValidationError';
+import { CodeSandbox, ProcessResult, SandboxLanguage } from '../utils/CodeSandbox';
+import { logger } from '../utils/Logger';
+
+const MAX_DETAIL_LENGTH = 500;
+
+/**
+ * Execution Validator - Runs every solutionCode entry against the stored test cases
+ */
+export class ExecutionValidator {
+  private sandbox: CodeSandbox;
+  private config: ExecutionConfig;
+
+  constructor(config: ExecutionConfig, sandbox?: CodeSandbox) {
+    this.config = config;
+    this.sandbox = sandbox || new CodeSandbox(config);
+  }
+
+  /**
+   * Probe toolchains before the first validation
+   */
+  async initialize(): Promise<void> {
+    await this.sandbox.initialize();
+  }
+
+  /**
+   * Get the underlying sandbox (shared with other execution-based checks)
+   */
+  getSandbox(): CodeSandbox {
+    return this.sandbox;
+  }
+
+  /**
+   * Compile and run each solution, comparing stdout to expectedOutput
+   */
+  async validate(question: CodingQuestion): Promise<ValidationError[]> {
+    const errors: ValidationError[] = [];
+
+    for (const language of this.sandbox.getAvailableLanguages()) {
+      errors.push(...(await this.validateLanguage(question, language)));
+    }
+
+    if (errors.length > 0) {
+      logger.debug('Execution validation failed', {
+        questionId: question.question_id,
+        errorCount: errors.length,
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate the solution of a single language
+   */
+  private async validateLanguage(
+    question: CodingQuestion,
+    language: SandboxLanguage
+  ): Promise<ValidationError[]> {
+    const errors: ValidationError[] = [];
+    const field = `solutionCode.${language}`;
+    const program = await this.sandbox.prepare(language, question.solutionCode[language]);
+
+    try {
+      if (!program.compiled) {
+        errors.push(
+          ValidationErrorFactory.compileError(field, language, truncate(program.compileOutput))
+        );
+        return errors;
+      }
+
+      for (const testCase of question.testCases) {
+        const result = await this.sandbox.run(program, testCase.input);
+        const error = this.checkResult(language, testCase, result);
+        if (error) {
+          errors.push(error);
+        }
+      }
+    } finally {
+      await this.sandbox.cleanup(program);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Classify a run result against the expected output
+   */
+  private checkResult(
+    language: SandboxLanguage,
+    testCase: TestCase,
+    result: ProcessResult
+  ): ValidationError | null {
+    const field = `solutionCode.${language}.testCases.${testCase.id}`;
+
+    if (result.timedOut) {
+      return ValidationErrorFactory.timeout(field, language, this.config.runTimeoutMs);
+    }
+
+    if (result.outputLimitExceeded) {
+      return ValidationErrorFactory.runtimeError(
+        field,
+        language,
+        `output exceeded ${this.config.maxOutputBytes} bytes`
+      );
+    }
+
+    if (result.exitCode !== 0) {
+      const reason = result.signal
+        ? `killed by ${result.signal}`
+        : `exit code ${result.exitCode}`;
+      const stderr = result.stderr.trim();
+      return ValidationErrorFactory.runtimeError(
+        field,
+        language,
+        stderr ? `${reason}: ${truncate(stderr)}` : reason
+      );
+    }
+
+    if (!ExecutionValidator.outputsMatch(testCase.expectedOutput, result.stdout)) {
+      return ValidationErrorFactory.wrongAnswer(
+        field,
+        language,
+        truncate(testCase.expectedOutput),
+        truncate(result.stdout)
+      );
+    }
+
+    return null;
+  }
+
+  /**
+   * Compare outputs ignoring trailing whitespace on lines and trailing blank lines
+   */
+  static outputsMatch(expected: string, actual: string): boolean {
+    return ExecutionValidator.normalizeOutput(expected) === ExecutionValidator.normalizeOutput(actual);
+  }
+
+  /**
+   * Normalize program output for comparison
+   */
+  static normalizeOutput(output: string): string {
+    return output
+      .replace(/\r\n/g, '\n')
+      .split('\n')
+      .map((line) => line.trimEnd())
+      .join('\n')
+      .replace(/\n+$/, '');
+  }
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_DETAIL_LENGTH ? `${text.substring(0, MAX_DETAIL_LENGTH)}...` : text;
+}
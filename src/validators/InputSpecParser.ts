@@ -0,0 +1,344 @@
+import { InputCount, InputSpec, InputSpecLine } from '../models/InputSpec';
+
+const ELLIPSIS = /^(\.{2,}|…|⋮)$/;
+const IDENTIFIER = /^[A-Za-z_]\w*$/;
+// Words that mark a line as prose rather than variable notation
+const PROSE_WORDS = new Set([
+  'the', 'of', 'is', 'are', 'and', 'or', 'with', 'where', 'which', 'each', 'first', 'second',
+  'third', 'next', 'following', 'line', 'lines', 'contains', 'containing', 'denoting',
+  'representing', 'integer', 'integers', 'number', 'numbers', 'string', 'strings', 'space',
+  'separated', 'given', 'input', 'output',
+]);
+const LINES_OF = /^([A-Za-z_]\w*|\d+)\s+lines?\s*(?:,\s*)?(?:of|with|each\s+(?:containing|with|of))\s+([A-Za-z_]\w*|\d+)\s+(integers?|numbers?|values?|strings?|words?)$/i;
+
+/**
+ * Values read from one test input following an input spec
+ */
+export interface ParsedInput {
+  scalars: Map<string, string>;
+  arrays: Map<string, string[]>;
+}
+
+/**
+ * Result of reading an input; `length` failures mean a declared count
+ * did not match the number of values actually present
+ */
+export type InputReadResult =
+  | { ok: true; values: ParsedInput }
+  | { ok: false; kind: 'format' | 'length'; message: string };
+
+/**
+ * Input Spec Parser - Extracts a structured input spec from inputFormat and
+ * reads test inputs against it
+ *
+ * Supported notation inside the first ``` block of inputFormat:
+ *   n                      scalars on one line
+ *   n m
+ *   a1 a2 ... an           array of n values (also a_1 ... a_n, a[0] ... a[n-1])
+ *   m lines of k integers  block of m lines with k values each
+ *   u1 v1                  block of m lines with named columns
+ *   ...
+ *   um vm
+ *   a11 a12 ... a1m        matrix of n rows with m values each
+ *   ...
+ *   an1 an2 ... anm
+ */
+export class InputSpecParser {
+  /**
+   * Parse inputFormat into a spec; null when there is no code block or any
+   * line of it uses notation outside the grammar
+   */
+  static parse(inputFormat: string): InputSpec | null {
+    const block = inputFormat.match(/```[^\n]*\n([\s\S]*?)```/);
+    if (!block) {
+      return null;
+    }
+
+    const lines = block[1]
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0);
+    const specLines: InputSpecLine[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      const tokens = lines[i].split(/\s+/);
+      const linesOf = lines[i].match(LINES_OF);
+
+      if (linesOf) {
+        specLines.push({
+          kind: 'lines',
+          name: `lines${specLines.length + 1}`,
+          count: this.toCount(linesOf[1]),
+          width: this.toCount(linesOf[2]),
+          valueType: /^(integers?|numbers?)$/i.test(linesOf[3]) ? 'integer' : 'any',
+        });
+        continue;
+      }
+
+      if (i + 2 < lines.length && ELLIPSIS.test(lines[i + 1])) {
+        const repeated = this.parseRepeatedRows(tokens, lines[i + 2].split(/\s+/));
+        if (!repeated) {
+          return null;
+        }
+        specLines.push(repeated);
+        i += 2;
+        continue;
+      }
+
+      if (tokens.some((token) => ELLIPSIS.test(token))) {
+        const array = this.parseArrayLine(tokens);
+        if (!array) {
+          return null;
+        }
+        specLines.push(array);
+        continue;
+      }
+
+      if (
+        tokens.every((token) => IDENTIFIER.test(token)) &&
+        !tokens.some((token) => PROSE_WORDS.has(token.toLowerCase()))
+      ) {
+        specLines.push({ kind: 'scalars', names: tokens });
+        continue;
+      }
+
+      return null;
+    }
+
+    return specLines.length > 0 ? { lines: specLines } : null;
+  }
+
+  /**
+   * Read a test input under the spec
+   */
+  static read(input: string, spec: InputSpec): InputReadResult {
+    const lines = input.replace(/\r\n/g, '\n').replace(/\n+$/, '').split('\n');
+    const values: ParsedInput = { scalars: new Map(), arrays: new Map() };
+    let cursor = 0;
+
+    const tokensAt = (index: number): string[] | null =>
+      index < lines.length ? lines[index].trim().split(/\s+/).filter((t) => t.length > 0) : null;
+
+    for (const specLine of spec.lines) {
+      if (specLine.kind === 'scalars') {
+        const tokens = tokensAt(cursor);
+        if (!tokens || tokens.length !== specLine.names.length) {
+          return failure(
+            'format',
+            `line ${cursor + 1} should contain ${specLine.names.join(' ')} (${specLine.names.length} value(s)), found ${tokens ? tokens.length : 'no line'}`
+          );
+        }
+        specLine.names.forEach((name, index) => values.scalars.set(name, tokens[index]));
+        cursor++;
+      } else if (specLine.kind === 'array') {
+        const expected = this.resolveCount(specLine.length, values);
+        // A missing trailing line is an empty array (e.g. n=0)
+        const tokens = tokensAt(cursor) || [];
+        if (expected !== null && tokens.length !== expected) {
+          return failure(
+            'length',
+            `${this.describeCount(specLine.length)}=${expected} but line ${cursor + 1} has ${tokens.length} value(s)`
+          );
+        }
+        if (specLine.valueType === 'integer' && !tokens.every(isInteger)) {
+          return failure('format', `line ${cursor + 1} should contain only integers`);
+        }
+        values.arrays.set(specLine.name, tokens);
+        cursor++;
+      } else {
+        const count = this.resolveCount(specLine.count, values);
+        if (count === null) {
+          return failure('format', `cannot resolve line count "${this.describeCount(specLine.count)}"`);
+        }
+        const width = specLine.columns
+          ? specLine.columns.length
+          : this.resolveCount(specLine.width, values);
+
+        for (let row = 0; row < count; row++) {
+          const tokens = tokensAt(cursor);
+          if (!tokens) {
+            return failure(
+              'length',
+              `${this.describeCount(specLine.count)}=${count} but only ${row} line(s) follow`
+            );
+          }
+          if (width !== null && tokens.length !== width) {
+            return failure(
+              specLine.columns ? 'format' : 'length',
+              `line ${cursor + 1} should contain ${width} value(s), found ${tokens.length}`
+            );
+          }
+          if (specLine.valueType === 'integer' && !tokens.every(isInteger)) {
+            return failure('format', `line ${cursor + 1} should contain only integers`);
+          }
+          if (specLine.columns) {
+            specLine.columns.forEach((column, index) => {
+              values.arrays.set(column, [...(values.arrays.get(column) || []), tokens[index]]);
+            });
+          } else {
+            values.arrays.set(specLine.name, [...(values.arrays.get(specLine.name) || []), ...tokens]);
+          }
+          cursor++;
+        }
+      }
+    }
+
+    const extra = lines.slice(cursor).filter((line) => line.trim().length > 0);
+    if (extra.length > 0) {
+      return failure('format', `unexpected extra input starting at line ${cursor + 1}`);
+    }
+
+    return { ok: true, values };
+  }
+
+  /**
+   * "a1 a2 ... an", "a_1 ... a_n", "nums[0] nums[1] ... nums[n-1]"
+   */
+  private static parseArrayLine(tokens: string[]): InputSpecLine | null {
+    const first = tokens[0].match(/^([A-Za-z_]*[A-Za-z])(?:_?(\d+)|\[\s*(\d+)\s*\])$/);
+    if (!first) {
+      return null;
+    }
+    const name = first[1];
+    const lastIndex = this.parseIndex(tokens[tokens.length - 1], name);
+    return {
+      kind: 'array',
+      name,
+      length: lastIndex || undefined,
+      valueType: 'any',
+    };
+  }
+
+  /**
+   * Rows repeated with an ellipsis line in between: named columns or matrix rows
+   */
+  private static parseRepeatedRows(firstRow: string[], lastRow: string[]): InputSpecLine | null {
+    // Matrix: "a11 a12 ... a1m" / "..." / "an1 an2 ... anm"
+    if (firstRow.some((token) => ELLIPSIS.test(token))) {
+      const first = firstRow[0].match(/^([A-Za-z_]*[A-Za-z])(?:_?\d_?\d|\[\s*\d+\s*\]\[\s*\d+\s*\])$/);
+      if (!first) {
+        return null;
+      }
+      const name = first[1];
+      const widthIndex = this.parseMatrixIndex(firstRow[firstRow.length - 1], name);
+      const countIndex = this.parseMatrixIndex(lastRow[0], name);
+      if (!widthIndex || !countIndex) {
+        return null;
+      }
+      return {
+        kind: 'lines',
+        name,
+        count: countIndex[0],
+        width: widthIndex[1],
+        valueType: 'any',
+      };
+    }
+
+    // Columns: "u1 v1" / "..." / "um vm"
+    const columns: string[] = [];
+    for (const token of firstRow) {
+      const match = token.match(/^([A-Za-z_]*[A-Za-z])(?:_?1|\[\s*[01]\s*\])$/);
+      if (!match) {
+        return null;
+      }
+      columns.push(match[1]);
+    }
+    if (lastRow.length !== columns.length) {
+      return null;
+    }
+    const count = this.parseIndex(lastRow[0], columns[0]);
+    if (!count) {
+      return null;
+    }
+    return {
+      kind: 'lines',
+      name: columns.join('_'),
+      count,
+      columns,
+      valueType: 'any',
+    };
+  }
+
+  /**
+   * Last index of an array token as a count: "an" -> n, "a_n" -> n,
+   * "a[n-1]" -> n, "a5" -> 5, "a[4]" -> 5
+   */
+  private static parseIndex(token: string, name: string): InputCount | null {
+    if (!token.startsWith(name)) {
+      return null;
+    }
+    const rest = token.slice(name.length);
+
+    const bracket = rest.match(/^\[\s*([A-Za-z_]\w*|\d+)\s*(-\s*1)?\s*\]$/);
+    if (bracket) {
+      if (/^\d+$/.test(bracket[1])) {
+        return { value: parseInt(bracket[1], 10) + 1 }; // zero-based
+      }
+      return { variable: bracket[1] };
+    }
+
+    const suffix = rest.match(/^_?([A-Za-z_]\w*|\d+)$/);
+    if (suffix) {
+      return this.toCount(suffix[1]);
+    }
+
+    return null;
+  }
+
+  /**
+   * Row and column index of a matrix token: "anm" -> [n, m], "a[n-1][m-1]" -> [n, m]
+   */
+  private static parseMatrixIndex(token: string, name: string): [InputCount, InputCount] | null {
+    if (!token.startsWith(name)) {
+      return null;
+    }
+    const rest = token.slice(name.length);
+
+    const bracket = rest.match(/^\[\s*(\w+)\s*(?:-\s*1)?\s*\]\[\s*(\w+)\s*(?:-\s*1)?\s*\]$/);
+    if (bracket) {
+      const toZeroBased = (index: string): InputCount =>
+        /^\d+$/.test(index) ? { value: parseInt(index, 10) + 1 } : { variable: index };
+      return [toZeroBased(bracket[1]), toZeroBased(bracket[2])];
+    }
+
+    const suffix = rest.match(/^_?(\w)_?(\w)$/);
+    if (suffix) {
+      return [this.toCount(suffix[1]), this.toCount(suffix[2])];
+    }
+
+    return null;
+  }
+
+  private static toCount(text: string): InputCount {
+    return /^\d+$/.test(text) ? { value: parseInt(text, 10) } : { variable: text };
+  }
+
+  private static describeCount(count: InputCount | undefined): string {
+    if (!count) {
+      return 'count';
+    }
+    return 'value' in count ? String(count.value) : count.variable;
+  }
+
+  /**
+   * Resolve a count from literal or earlier scalar; null if unknown
+   */
+  private static resolveCount(count: InputCount | undefined, values: ParsedInput): number | null {
+    if (!count) {
+      return null;
+    }
+    if ('value' in count) {
+      return count.value;
+    }
+    const raw = values.scalars.get(count.variable);
+    return raw !== undefined && /^\d+$/.test(raw) ? parseInt(raw, 10) : null;
+  }
+}
+
+function isInteger(token: string): boolean {
+  return /^[-+]?\d+$/.test(token);
+}
+
+function failure(kind: 'format' | 'length', message: string): InputReadResult {
+  return { ok: false, kind, message };
+}
@@ -0,0 +1,52 @@
+import { CodingQuestion } from '../models/CodingQuestion';
+import { InputSpecSchema } from '../models/InputSpec';
+import { ValidationError, ValidationErrorFactory } from '../models/ValidationError';
+import { InputSpecParser } from './InputSpecParser';
+
+/**
+ * Input Spec Validator - Checks every test input parses under the input spec
+ * derived from inputFormat
+ */
+export class InputSpecValidator {
+  /**
+   * Validate the stored spec and every test case input
+   */
+  static validate(question: CodingQuestion): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const spec = InputSpecParser.parse(question.inputFormat);
+
+    // A stored spec is derived data and must match the current inputFormat
+    if (question.inputSpec !== undefined) {
+      const stored = InputSpecSchema.safeParse(question.inputSpec);
+      if (!stored.success || JSON.stringify(stored.data) !== JSON.stringify(spec)) {
+        errors.push(
+          ValidationErrorFactory.invalidValue(
+            'inputSpec',
+            'Stored input spec does not match the notation in inputFormat'
+          )
+        );
+      }
+    }
+
+    if (!spec) {
+      return errors;
+    }
+
+    question.testCases.forEach((testCase, index) => {
+      const result = InputSpecParser.read(testCase.input, spec);
+      if (result.ok) {
+        return;
+      }
+
+      const field = `testCases.${index}.input`;
+      const message = `Test case ${testCase.id}: ${result.message}`;
+      errors.push(
+        result.kind === 'length'
+          ? ValidationErrorFactory.constraintViolation(field, message)
+          : ValidationErrorFactory.invalidFormat(field, `Input does not match inputFormat. ${message}`)
+      );
+    });
+
+    return errors;
+  }
+}
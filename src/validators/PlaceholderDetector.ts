@@ -0,0 +1,70 @@
+import { CodingQuestion, LanguageCode } from '../models/CodingQuestion';
+import { ValidationError, ValidationErrorFactory } from '../models/ValidationError';
+import { DataTransformer } from '../utils/DataTransformer';
+
+const LANGUAGES: Array<keyof LanguageCode> = ['c', 'cpp', 'java', 'javascript', 'python'];
+
+/**
+ * Markers left in templates instead of a real implementation
+ */
+const PLACEHOLDER_MARKERS: RegExp[] = [
+  /write your code here/i,
+  /your code goes here/i,
+  /to be implemented/i,
+];
+
+/**
+ * Placeholder Detector - Flags solutionCode that is not a real solution
+ */
+export class PlaceholderDetector {
+  /**
+   * Detect placeholder solutions in every language
+   */
+  static detect(question: CodingQuestion): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    LANGUAGES.forEach((language) => {
+      const reason = this.getPlaceholderReason(question, language);
+      if (reason) {
+        errors.push(ValidationErrorFactory.placeholderCode(`solutionCode.${language}`, reason));
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Explain why a language's solution is a placeholder, or null if it is not
+   */
+  private static getPlaceholderReason(
+    question: CodingQuestion,
+    language: keyof LanguageCode
+  ): string | null {
+    const solution = normalizeCode(question.solutionCode[language]);
+
+    if (solution === normalizeCode(question.starterCode[language])) {
+      return 'solution is identical to the starter code';
+    }
+
+    if (
+      solution === normalizeCode(DataTransformer.DEFAULT_STARTER_TEMPLATES[language]) ||
+      solution === normalizeCode(DataTransformer.DEFAULT_SOLUTION_TEMPLATES[language])
+    ) {
+      return 'solution is the default import template';
+    }
+
+    const marker = PLACEHOLDER_MARKERS.find((pattern) => pattern.test(solution));
+    if (marker) {
+      return `solution contains placeholder marker matching ${marker}`;
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Ignore whitespace-only differences when comparing code
+ */
+function normalizeCode(code: string): string {
+  return code.replace(/\r\n/g, '\n').replace(/[ \t]+$/gm, '').trim();
+}
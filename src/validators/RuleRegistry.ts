@@ -0,0 +1,160 @@
+import path from 'path';
+import { CodingQuestion } from '../models/CodingQuestion';
+import { ValidationError } from '../models/ValidationError';
+import { ValidationConfig } from '../config/validation.config';
+import { logger } from '../utils/Logger';
+import { BUILT_IN_RULES, RuleSeverity, ValidationRule } from './rules';
+
+/**
+ * Rule Registry - Holds the custom validation rules and runs the enabled ones
+ */
+export class RuleRegistry {
+  private rules: Map<string, ValidationRule> = new Map();
+  private disabled: Set<string> = new Set();
+  private severityOverrides: Map<string, RuleSeverity> = new Map();
+
+  constructor(rules: ValidationRule[] = BUILT_IN_RULES) {
+    rules.forEach((rule) => this.register(rule));
+  }
+
+  /**
+   * Create a registry with the built-in rules, extra rule modules, disabled
+   * rules and severity overrides from configuration
+   */
+  static fromConfig(config: ValidationConfig): RuleRegistry {
+    const registry = new RuleRegistry();
+
+    config.ruleModules.forEach((modulePath) => registry.loadModule(modulePath));
+
+    config.disabledRules.forEach((ruleId) => {
+      if (!registry.has(ruleId)) {
+        logger.warn('Unknown validation rule in disabled list', { ruleId });
+        return;
+      }
+      registry.disable(ruleId);
+    });
+
+    Object.entries(config.severityOverrides).forEach(([ruleId, severity]) => {
+      if (!registry.has(ruleId)) {
+        logger.warn('Unknown validation rule in severity overrides', { ruleId });
+        return;
+      }
+      registry.setSeverity(ruleId, severity);
+    });
+
+    return registry;
+  }
+
+  /**
+   * Register a rule; ids must be unique
+   */
+  register(rule: ValidationRule): void {
+    if (this.rules.has(rule.id)) {
+      throw new Error(`Validation rule "${rule.id}" is already registered`);
+    }
+    this.rules.set(rule.id, rule);
+  }
+
+  /**
+   * Load rules from a module exporting `rule`, `rules` or a default rule.
+   * Relative paths resolve from the working directory.
+   */
+  loadModule(modulePath: string): void {
+    const resolved = path.isAbsolute(modulePath) ? modulePath : path.resolve(process.cwd(), modulePath);
+    const exported = require(resolved);
+    const candidates: unknown[] = [
+      exported.default,
+      exported.rule,
+      ...(Array.isArray(exported.rules) ? exported.rules : []),
+    ];
+    const rules = candidates.filter(isValidationRule);
+
+    if (rules.length === 0) {
+      throw new Error(`Rule module "${modulePath}" does not export any validation rules`);
+    }
+
+    rules.forEach((rule) => this.register(rule));
+    logger.info('Loaded validation rule module', {
+      module: modulePath,
+      rules: rules.map((rule) => rule.id),
+    });
+  }
+
+  has(ruleId: string): boolean {
+    return this.rules.has(ruleId);
+  }
+
+  get(ruleId: string): ValidationRule | undefined {
+    return this.rules.get(ruleId);
+  }
+
+  enable(ruleId: string): void {
+    this.disabled.delete(ruleId);
+  }
+
+  disable(ruleId: string): void {
+    this.disabled.add(ruleId);
+  }
+
+  isEnabled(ruleId: string): boolean {
+    return this.rules.has(ruleId) && !this.disabled.has(ruleId);
+  }
+
+  /**
+   * Report a rule's findings at a different severity than it declares
+   */
+  setSeverity(ruleId: string, severity: RuleSeverity): void {
+    this.severityOverrides.set(ruleId, severity);
+  }
+
+  getSeverity(ruleId: string): RuleSeverity | undefined {
+    return this.severityOverrides.get(ruleId) || this.rules.get(ruleId)?.severity;
+  }
+
+  /**
+   * All registered rules in registration order
+   */
+  getRules(): ValidationRule[] {
+    return Array.from(this.rules.values());
+  }
+
+  getEnabledRules(): ValidationRule[] {
+    return this.getRules().filter((rule) => !this.disabled.has(rule.id));
+  }
+
+  /**
+   * Run every enabled rule, tagging each error with its rule id and severity.
+   * A rule that throws is logged and skipped so one bad rule cannot
+   * block validation of the whole document.
+   */
+  run(question: CodingQuestion): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    for (const rule of this.getEnabledRules()) {
+      const severity = this.getSeverity(rule.id);
+      try {
+        rule.check(question).forEach((error) => {
+          errors.push({ ...error, ruleId: rule.id, severity });
+        });
+      } catch (error) {
+        logger.error('Validation rule failed', {
+          ruleId: rule.id,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    return errors;
+  }
+}
+
+function isValidationRule(value: unknown): value is ValidationRule {
+  const rule = value as ValidationRule;
+  return (
+    typeof rule === 'object' &&
+    rule !== null &&
+    typeof rule.id === 'string' &&
+    typeof rule.check === 'function' &&
+    ['error', 'warning', 'info'].includes(rule.severity)
+  );
+}
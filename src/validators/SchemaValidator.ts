@@ -1,15 +1,33 @@
 import { ZodError } from 'zod';
-import {
-  CodingQuestion,
-  CodingQuestionSchema,
-  CodingQuestionValidator,
-} from '../models/CodingQuestion';
+import { CodingQuestion, CodingQuestionSchema } from '../models/CodingQuestion';
 import {
   ValidationError,
   ValidationErrorFactory,
   ValidationResult,
 } from '../models/ValidationError';
 import { logger } from '../utils/Logger';
+import { ExecutionValidator } from './ExecutionValidator';
+import { DifferentialTester } from './DifferentialTester';
+import { RuleRegistry } from './RuleRegistry';
+import { ExecutionConfig } from '../config/execution.config';
+import { ValidationConfig } from '../config/validation.config';
+import { CodeSandbox } from '../utils/CodeSandbox';
+
+/**
+ * Rule ids for the validation stages that run outside the rule registry
+ */
+export const SCHEMA_RULE_ID = 'schema';
+export const EXECUTION_RULE_ID = 'solution-execution';
+export const DIFFERENTIAL_RULE_ID = 'solution-differential';
+
+/**
+ * Schema Validator options
+ */
+export interface SchemaValidatorOptions {
+  ruleRegistry?: RuleRegistry; // Defaults to the built-in rules, all enabled
+  executionValidator?: ExecutionValidator;
+  differentialTester?: DifferentialTester;
+}
 
 /**
  * Schema Validator for Coding Questions
@@ -21,11 +39,58 @@ export class SchemaValidator {
   //   this.skipCustomValidations = options.skipCustomValidations || false;
   // }
 
+  private ruleRegistry: RuleRegistry;
+  private executionValidator?: ExecutionValidator;
+  private differentialTester?: DifferentialTester;
+
+  constructor(options: SchemaValidatorOptions = {}) {
+    this.ruleRegistry = options.ruleRegistry || new RuleRegistry();
+    this.executionValidator = options.executionValidator;
+    this.differentialTester = options.differentialTester;
+  }
+
+  /**
+   * Create a validator with the rules and execution stages enabled in
+   * configuration. Both execution stages share one sandbox so toolchains are
+   * only probed once.
+   */
+  static async fromExecutionConfig(
+    config: ExecutionConfig,
+    validationConfig?: ValidationConfig
+  ): Promise<SchemaValidator> {
+    const ruleRegistry = validationConfig
+      ? RuleRegistry.fromConfig(validationConfig)
+      : new RuleRegistry();
+
+    if (!config.enabled && !config.differentialEnabled) {
+      return new SchemaValidator({ ruleRegistry });
+    }
+
+    logger.info('Initializing execution sandbox...');
+    const sandbox = new CodeSandbox(config);
+    await sandbox.initialize();
+
+    return new SchemaValidator({
+      ruleRegistry,
+      executionValidator: config.enabled ? new ExecutionValidator(config, sandbox) : undefined,
+      differentialTester: config.differentialEnabled
+        ? new DifferentialTester(config, sandbox)
+        : undefined,
+    });
+  }
+
+  /**
+   * Get the rule registry, e.g. to register rules at runtime
+   */
+  getRuleRegistry(): RuleRegistry {
+    return this.ruleRegistry;
+  }
+
   /**
    * Validate a coding question document
    */
   validate(document: any): ValidationResult {
-    const errors: ValidationError[] = [];
+    const findings: ValidationError[] = [];
     let documentId: string | undefined;
 
     try {
@@ -36,28 +101,33 @@ export class SchemaValidator {
 
       // Step 1: Validate against Zod schema
       const zodErrors = this.validateWithZod(document);
-      errors.push(...zodErrors);
+      findings.push(...zodErrors);
 
       // // If Zod validation passed, perform custom validations (unless skipped)
       // if (zodErrors.length === 0 && !this.skipCustomValidations) {
       // If Zod validation passed, perform custom validations
       if (zodErrors.length === 0) {      
         const customErrors = this.performCustomValidations(document);
-        errors.push(...customErrors);
+        findings.push(...customErrors);
       }
 
+      // Only error-severity findings make the document invalid
+      const errors = findings.filter((finding) => (finding.severity || 'error') === 'error');
+      const warnings = findings.filter((finding) => (finding.severity || 'error') !== 'error');
       const isValid = errors.length === 0;
 
       if (!isValid) {
         logger.debug('Validation failed for document', {
           documentId,
           errorCount: errors.length,
+          warningCount: warnings.length,
         });
       }
 
       return {
         isValid,
         errors,
+        warnings,
         documentId,
       };
     } catch (error) {
@@ -75,11 +145,71 @@ export class SchemaValidator {
             `Critical validation error: ${(error as Error).message}`
           ),
         ],
+        warnings: [],
         documentId,
       };
     }
   }
 
+  /**
+   * Validate a document, then run the execution stages when configured.
+   * Execution only runs on documents that are otherwise valid, so broken
+   * shapes never reach the sandbox; differential testing only runs once every
+   * solution passes the stored test cases.
+   */
+  async validateWithExecution(document: any): Promise<ValidationResult> {
+    const result = this.validate(document);
+
+    if ((!this.executionValidator && !this.differentialTester) || !result.isValid) {
+      return result;
+    }
+
+    try {
+      const question = document as CodingQuestion;
+      let executionErrors: ValidationError[] = [];
+
+      if (this.executionValidator) {
+        executionErrors = withRuleId(
+          await this.executionValidator.validate(question),
+          EXECUTION_RULE_ID
+        );
+      }
+      if (executionErrors.length === 0 && this.differentialTester) {
+        executionErrors = withRuleId(
+          await this.differentialTester.validate(question),
+          DIFFERENTIAL_RULE_ID
+        );
+      }
+
+      return {
+        isValid: executionErrors.length === 0,
+        errors: executionErrors,
+        warnings: result.warnings,
+        documentId: result.documentId,
+      };
+    } catch (error) {
+      logger.error('Execution validation error', {
+        documentId: result.documentId,
+        error: (error as Error).message,
+      });
+      return {
+        isValid: false,
+        errors: [
+          {
+            ...ValidationErrorFactory.invalidValue(
+              'solutionCode',
+              `Critical execution error: ${(error as Error).message}`
+            ),
+            ruleId: EXECUTION_RULE_ID,
+            severity: 'error',
+          },
+        ],
+        warnings: result.warnings,
+        documentId: result.documentId,
+      };
+    }
+  }
+
   /**
    * Validate using Zod schema
    */
@@ -138,36 +268,14 @@ export class SchemaValidator {
       }
     }
 
-    return errors;
+    return withRuleId(errors, SCHEMA_RULE_ID);
   }
 
   /**
-   * Perform custom validations beyond Zod schema
+   * Perform custom validations beyond Zod schema by running the enabled rules
    */
   private performCustomValidations(document: CodingQuestion): ValidationError[] {
-    const errors: ValidationError[] = [];
-
-    try {
-      // Use custom validator from CodingQuestion model
-      const customErrors = CodingQuestionValidator.performCustomValidations(document);
-
-      // Convert string errors to ValidationError objects
-      customErrors.forEach((errorMsg) => {
-        if (errorMsg.includes('Test case')) {
-          errors.push(ValidationErrorFactory.invalidFormat('testCases', errorMsg));
-        } else if (errorMsg.includes('inputFormat')) {
-          errors.push(ValidationErrorFactory.invalidFormat('inputFormat', errorMsg));
-        } else {
-          errors.push(ValidationErrorFactory.constraintViolation('document', errorMsg));
-        }
-      });
-    } catch (error) {
-      logger.error('Custom validation error', {
-        error: (error as Error).message,
-      });
-    }
-
-    return errors;
+    return this.ruleRegistry.run(document);
   }
 
   /**
@@ -185,22 +293,39 @@ export class SchemaValidator {
     valid: number;
     invalid: number;
     errorsByField: Record<string, number>;
+    errorsByRule: Record<string, number>;
+    withWarnings: number;
+    warningsByRule: Record<string, number>;
   } {
     const summary = {
       total: results.length,
       valid: results.filter((r) => r.isValid).length,
       invalid: results.filter((r) => !r.isValid).length,
       errorsByField: {} as Record<string, number>,
+      errorsByRule: {} as Record<string, number>,
+      withWarnings: results.filter((r) => r.warnings.length > 0).length,
+      warningsByRule: {} as Record<string, number>,
     };
 
-    // Count errors by field
+    // Count errors by field and by rule
     results.forEach((result) => {
       result.errors.forEach((error) => {
         const field = error.field;
         summary.errorsByField[field] = (summary.errorsByField[field] || 0) + 1;
+
+        const ruleId = error.ruleId || 'unknown';
+        summary.errorsByRule[ruleId] = (summary.errorsByRule[ruleId] || 0) + 1;
+      });
+      result.warnings.forEach((warning) => {
+        const ruleId = warning.ruleId || 'unknown';
+        summary.warningsByRule[ruleId] = (summary.warningsByRule[ruleId] || 0) + 1;
       });
     });
 
     return summary;
   }
 }
+
+function withRuleId(errors: ValidationError[], ruleId: string): ValidationError[] {
+  return errors.map((error) => ({ ...error, ruleId, severity: 'error' }));
+}
@@ -0,0 +1,20 @@
+import { CodingQuestion } from '../../models/CodingQuestion';
+import { ValidationError, ValidationSeverity } from '../../models/ValidationError';
+
+/**
+ * How serious a rule's findings are
+ */
+export type RuleSeverity = ValidationSeverity;
+
+/**
+ * A custom validation rule run on documents that pass the Zod schema.
+ *
+ * Rule modules export one rule (`rule` or default export) or several
+ * (`rules`); see RuleRegistry.loadModule.
+ */
+export interface ValidationRule {
+  id: string; // Stable kebab-case id used in config and reports
+  severity: RuleSeverity;
+  description: string;
+  check(question: CodingQuestion): ValidationError[];
+}
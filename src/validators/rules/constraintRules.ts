@@ -0,0 +1,14 @@
+import { ConstraintValidator } from '../ConstraintValidator';
+import { ValidationRule } from './ValidationRule';
+
+/**
+ * Test inputs must respect the bounds stated in constraints
+ */
+export const constraintBoundsRule: ValidationRule = {
+  id: 'constraint-bounds',
+  severity: 'error',
+  description: 'Test inputs respect the bounds stated in constraints',
+  check(question) {
+    return ConstraintValidator.validate(question);
+  },
+};
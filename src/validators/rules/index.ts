@@ -0,0 +1,36 @@
+import { constraintBoundsRule } from './constraintRules';
+import { inputFormatCodeBlockRule, inputSpecRule } from './inputFormatRules';
+import { markupHygieneRule } from './markupRules';
+import { placeholderSolutionRule } from './solutionRules';
+import { schemaVersionRule } from './schemaVersionRules';
+import { contentLengthRule, outputFormatCodeBlockRule } from './styleRules';
+import { unknownTopicTagRule } from './tagRules';
+import { stdinInputRule, stdoutOutputRule } from './testCaseFormatRules';
+import { ValidationRule } from './ValidationRule';
+
+export { RuleSeverity, ValidationRule } from './ValidationRule';
+export { stdinInputRule, stdoutOutputRule } from './testCaseFormatRules';
+export { inputFormatCodeBlockRule, inputSpecRule } from './inputFormatRules';
+export { placeholderSolutionRule } from './solutionRules';
+export { constraintBoundsRule } from './constraintRules';
+export { outputFormatCodeBlockRule, contentLengthRule } from './styleRules';
+export { schemaVersionRule } from './schemaVersionRules';
+export { markupHygieneRule } from './markupRules';
+export { unknownTopicTagRule } from './tagRules';
+
+/**
+ * Rules registered by default, in the order they run
+ */
+export const BUILT_IN_RULES: ValidationRule[] = [
+  schemaVersionRule,
+  stdinInputRule,
+  stdoutOutputRule,
+  inputFormatCodeBlockRule,
+  placeholderSolutionRule,
+  inputSpecRule,
+  constraintBoundsRule,
+  markupHygieneRule,
+  outputFormatCodeBlockRule,
+  contentLengthRule,
+  unknownTopicTagRule,
+];
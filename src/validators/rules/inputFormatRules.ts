@@ -0,0 +1,30 @@
+import { CodingQuestionValidator } from '../../models/CodingQuestion';
+import { ValidationErrorFactory } from '../../models/ValidationError';
+import { InputSpecValidator } from '../InputSpecValidator';
+import { ValidationRule } from './ValidationRule';
+
+/**
+ * inputFormat must show the input layout in a ``` code block
+ */
+export const inputFormatCodeBlockRule: ValidationRule = {
+  id: 'input-format-code-block',
+  severity: 'error',
+  description: 'inputFormat contains a ``` code block',
+  check(question) {
+    return CodingQuestionValidator.validateInputFormat(question.inputFormat).map((message) =>
+      ValidationErrorFactory.invalidFormat('inputFormat', message)
+    );
+  },
+};
+
+/**
+ * Test inputs must parse under the spec derived from inputFormat
+ */
+export const inputSpecRule: ValidationRule = {
+  id: 'input-spec',
+  severity: 'error',
+  description: 'Test inputs parse under the input spec derived from inputFormat',
+  check(question) {
+    return InputSpecValidator.validate(question);
+  },
+};
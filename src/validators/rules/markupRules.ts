@@ -0,0 +1,42 @@
+import { ValidationError, ValidationErrorFactory } from '../../models/ValidationError';
+import { MarkupConverter, MarkupOptions } from '../../utils/MarkupConverter';
+import { ValidationRule } from './ValidationRule';
+
+/**
+ * Artifacts listed per finding; the rest are summarized as "and N more"
+ */
+const MAX_LISTED_ARTIFACTS = 5;
+
+/**
+ * Text fields must be plain text: no HTML tags or entities, no LaTeX, and no
+ * Markdown outside the ``` code blocks of inputFormat/outputFormat
+ */
+export const markupHygieneRule: ValidationRule = {
+  id: 'markup-hygiene',
+  severity: 'error',
+  description: 'content, constraints, inputFormat and outputFormat contain no HTML, LaTeX or Markdown',
+  check(question) {
+    const errors: ValidationError[] = [];
+    const checkField = (field: string, text: string, options: MarkupOptions) => {
+      const artifacts = MarkupConverter.detect(text, options).map(
+        (artifact) => `${artifact.kind} ${JSON.stringify(artifact.match)}`
+      );
+      if (artifacts.length > 0) {
+        const listed = artifacts.slice(0, MAX_LISTED_ARTIFACTS);
+        if (artifacts.length > MAX_LISTED_ARTIFACTS) {
+          listed.push(`and ${artifacts.length - MAX_LISTED_ARTIFACTS} more`);
+        }
+        errors.push(ValidationErrorFactory.markupArtifact(field, listed));
+      }
+    };
+
+    checkField('content', question.content, { markdown: true });
+    question.constraints.forEach((constraint, index) => {
+      checkField(`constraints.${index}`, constraint, { markdown: true });
+    });
+    checkField('inputFormat', question.inputFormat, { markdown: false });
+    checkField('outputFormat', question.outputFormat, { markdown: false });
+
+    return errors;
+  },
+};
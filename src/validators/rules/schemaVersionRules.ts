@@ -0,0 +1,25 @@
+import { ValidationErrorFactory } from '../../models/ValidationError';
+import { CURRENT_SCHEMA_VERSION } from '../../migrations/registry';
+import { ValidationRule } from './ValidationRule';
+
+/**
+ * A recorded schema_version must be the current one; older documents are
+ * brought up to date by migrations, not by AI correction
+ */
+export const schemaVersionRule: ValidationRule = {
+  id: 'schema-version',
+  severity: 'error',
+  description: `schema_version, when recorded, is the current version (${CURRENT_SCHEMA_VERSION})`,
+  check(question) {
+    if (question.schema_version === undefined || question.schema_version === CURRENT_SCHEMA_VERSION) {
+      return [];
+    }
+    return [
+      ValidationErrorFactory.invalidValue(
+        'schema_version',
+        `Document is at schema version ${question.schema_version}; run migrations to reach version ${CURRENT_SCHEMA_VERSION}`,
+        question.schema_version
+      ),
+    ];
+  },
+};
@@ -0,0 +1,14 @@
+import { PlaceholderDetector } from '../PlaceholderDetector';
+import { ValidationRule } from './ValidationRule';
+
+/**
+ * Solutions must not be importer templates or placeholders
+ */
+export const placeholderSolutionRule: ValidationRule = {
+  id: 'placeholder-solution',
+  severity: 'error',
+  description: 'solutionCode is a real solution, not a template or placeholder',
+  check(question) {
+    return PlaceholderDetector.detect(question);
+  },
+};
@@ -0,0 +1,48 @@
+import { ValidationErrorFactory } from '../../models/ValidationError';
+import { ValidationRule } from './ValidationRule';
+
+/**
+ * Descriptions shorter than this are probably truncated or stubs
+ */
+const MIN_CONTENT_LENGTH = 100;
+
+/**
+ * outputFormat should show the output layout in a ``` code block, like inputFormat
+ */
+export const outputFormatCodeBlockRule: ValidationRule = {
+  id: 'output-format-code-block',
+  severity: 'warning',
+  description: 'outputFormat contains a ``` code block',
+  check(question) {
+    if (question.outputFormat.includes('```')) {
+      return [];
+    }
+    return [
+      ValidationErrorFactory.invalidFormat(
+        'outputFormat',
+        'outputFormat should contain code blocks with ``` markers'
+      ),
+    ];
+  },
+};
+
+/**
+ * The problem description should be long enough to be self-contained
+ */
+export const contentLengthRule: ValidationRule = {
+  id: 'content-length',
+  severity: 'warning',
+  description: `content is at least ${MIN_CONTENT_LENGTH} characters`,
+  check(question) {
+    const length = question.content.trim().length;
+    if (length >= MIN_CONTENT_LENGTH) {
+      return [];
+    }
+    return [
+      ValidationErrorFactory.invalidValue(
+        'content',
+        `Description is only ${length} characters; expected at least ${MIN_CONTENT_LENGTH}`
+      ),
+    ];
+  },
+};
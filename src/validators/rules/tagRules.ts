@@ -0,0 +1,34 @@
+import { ValidationError, ValidationErrorFactory } from '../../models/ValidationError';
+import { TagTaxonomy } from '../../utils/TagTaxonomy';
+import { ValidationRule } from './ValidationRule';
+
+/**
+ * topic_tags should use the canonical tags of the tag taxonomy
+ */
+export const unknownTopicTagRule: ValidationRule = {
+  id: 'unknown-topic-tag',
+  severity: 'warning',
+  description: 'topic_tags are canonical tags from the tag taxonomy',
+  check(question) {
+    const taxonomy = TagTaxonomy.getDefault();
+    const errors: ValidationError[] = [];
+
+    question.topic_tags.forEach((tag, index) => {
+      if (taxonomy.isCanonical(tag)) {
+        return;
+      }
+      const resolved = taxonomy.resolve(tag);
+      errors.push(
+        ValidationErrorFactory.invalidValue(
+          `topic_tags.${index}`,
+          resolved
+            ? `Tag "${tag}" is not canonical; use "${resolved.name}"`
+            : `Tag "${tag}" is not in the tag taxonomy`,
+          tag
+        )
+      );
+    });
+
+    return errors;
+  },
+};
@@ -0,0 +1,56 @@
+import { CodingQuestionValidator } from '../../models/CodingQuestion';
+import { ValidationError, ValidationErrorFactory } from '../../models/ValidationError';
+import { ValidationRule } from './ValidationRule';
+
+/**
+ * Test case inputs must be stdin text, not variable assignments
+ */
+export const stdinInputRule: ValidationRule = {
+  id: 'test-case-stdin-input',
+  severity: 'error',
+  description: 'Test case inputs use stdin format, not variable assignments',
+  check(question) {
+    const errors: ValidationError[] = [];
+
+    question.testCases.forEach((testCase, index) => {
+      if (CodingQuestionValidator.usesAssignmentFormat(testCase.input)) {
+        errors.push(
+          ValidationErrorFactory.invalidFormat(
+            `testCases.${index}.input`,
+            `Test case ${testCase.id}: Input should be in stdin format, not variable assignment format`
+          )
+        );
+      }
+    });
+
+    return errors;
+  },
+};
+
+/**
+ * Expected outputs must be stdout text, not assignments or list literals
+ */
+export const stdoutOutputRule: ValidationRule = {
+  id: 'test-case-stdout-output',
+  severity: 'error',
+  description: 'Test case expected outputs use stdout format, not data structures',
+  check(question) {
+    const errors: ValidationError[] = [];
+
+    question.testCases.forEach((testCase, index) => {
+      if (
+        CodingQuestionValidator.usesAssignmentFormat(testCase.expectedOutput) ||
+        CodingQuestionValidator.usesListLiteralFormat(testCase.expectedOutput)
+      ) {
+        errors.push(
+          ValidationErrorFactory.invalidFormat(
+            `testCases.${index}.expectedOutput`,
+            `Test case ${testCase.id}: Expected output should be in stdout format, not data structure format`
+          )
+        );
+      }
+    });
+
+    return errors;
+  },
+};